@@ -1,24 +1,26 @@
 #!/bin/bash
 
-# A simple script to call the Shopify Autoblogger API with CSV keyword support.
+# A thin client for the Shopify Autoblogger batch API. Keywords are imported and the posts are
+# generated on the server, so a long run doesn't depend on this machine staying online.
 #
 # Usage:
-# 1. Make sure you have your API key set as an environment variable:
+# 1. Set your API key (and optionally the API URL and blog) as environment variables:
 #    export API_KEY="your_secret_key_here"
-# 2. Run the script with a CSV file containing keywords:
+#    export BLOG_ID="80784130142"
+# 2. Import a CSV of keywords (columns: keyword, user_prompt, topic) and start a batch over them:
 #    ./call_blogger.sh keywords.csv
-#    or with a single topic:
+#    or start a batch for a single topic:
 #    ./call_blogger.sh --"your blog topic here"
+# 3. Follow or control a batch:
+#    ./call_blogger.sh status|pause|resume|cancel BATCH_ID
 
 # --- Configuration ---
-# The ID of the blog you want to post to.
-# You can get this by running: curl -H "Authorization: Bearer $API_KEY" https://api.royalpheromones.com/blogs
-BLOG_ID="80784130142"
-API_URL="https://api.royalpheromones.com/post"
-export API_KEY="KKaUVv1BQOD7MCLRuqUZfezFHqTZlEUZNb9dx59czM0="
+# You can get the blog id by running: curl -H "Authorization: Bearer $API_KEY" "$API_URL/blogs"
+API_URL="${API_URL:-https://api.royalpheromones.com}"
+BLOG_ID="${BLOG_ID:-80784130142}"
+CONCURRENCY="${CONCURRENCY:-2}"
 # --- Script Logic ---
 
-# Check if API_KEY is set
 if [ -z "$API_KEY" ]; then
     echo "Error: API_KEY environment variable is not set."
     echo "Please set it before running the script:"
@@ -26,80 +28,59 @@ if [ -z "$API_KEY" ]; then
     exit 1
 fi
 
-# Check if input was provided
 if [ -z "$1" ]; then
     echo "Error: No input provided."
     echo "Usage: ./call_blogger.sh keywords.csv"
     echo "   or: ./call_blogger.sh --\"your blog topic here\""
+    echo "   or: ./call_blogger.sh status|pause|resume|cancel BATCH_ID"
     exit 1
 fi
 
-# Function to process a single topic
-process_topic() {
-    local topic="$1"
-    local user_prompt="$2"
-    
-    echo "Generating blog post for topic: \"$topic\"..."
-    
-    # Build JSON payload
-    local json_payload='{
-        "blogId": '$BLOG_ID',
-        "topic": "'"$topic"'",
-        "style": "informative",
-        "words": 800,
-        "research": "comprehensive",
-        "draft": false'
-    
-    # Add user prompt if provided
-    if [ -n "$user_prompt" ]; then
-        json_payload+=',
-        "userPrompt": "'"$user_prompt"'"'
-    fi
-    
-    json_payload+='}'
-    
-    # Make the API call using curl
-    curl -X POST "$API_URL" \
-      -H "Content-Type: application/json" \
+api() {
+    local method="$1"
+    local path="$2"
+    shift 2
+    curl -X "$method" "$API_URL$path" \
       -H "Authorization: Bearer $API_KEY" \
-      -d "$json_payload" \
-      --silent | jq .
-    
-    echo -e "\n"
+      --silent --show-error --fail-with-body \
+      "$@"
+}
+
+# Starts a batch over a JSON array of keywords
+start_batch() {
+    local keywords="$1"
+    local payload
+    payload=$(jq -n \
+      --argjson blogId "$BLOG_ID" \
+      --argjson concurrency "$CONCURRENCY" \
+      --argjson keywords "$keywords" \
+      '{blogId: $blogId, keywords: $keywords, style: "informative", words: 800, research: "comprehensive", publish: true, concurrency: $concurrency}')
+    api POST /batches -H "Content-Type: application/json" -d "$payload" | jq .
 }
 
 INPUT="$1"
 
-# Check if input is a CSV file or a single topic
-if [[ "$INPUT" == *.csv ]] && [ -f "$INPUT" ]; then
-    echo "Processing CSV file: $INPUT"
-    
-    # Read CSV file line by line
-    while IFS=',' read -r keyword user_prompt || [ -n "$keyword" ]; do
-        # Skip empty lines and lines starting with #
-        if [[ -z "$keyword" || "$keyword" =~ ^[[:space:]]*# ]]; then
-            continue
-        fi
-        
-        # Remove leading/trailing whitespace and quotes
-        keyword=$(echo "$keyword" | sed 's/^[[:space:]]*"*//; s/"*[[:space:]]*$//')
-        user_prompt=$(echo "$user_prompt" | sed 's/^[[:space:]]*"*//; s/"*[[:space:]]*$//')
-        
-        if [ -n "$keyword" ]; then
-            process_topic "$keyword" "$user_prompt"
-            
-            # Add a small delay between requests to be nice to the API
-            sleep 2
+case "$INPUT" in
+    status)
+        api GET "/batches/$2" | jq .
+        ;;
+    pause|resume|cancel)
+        api POST "/batches/$2/$INPUT" | jq .
+        ;;
+    --*)
+        start_batch "$(jq -n --arg topic "${INPUT:2}" '[$topic]')"
+        ;;
+    *.csv)
+        if [ ! -f "$INPUT" ]; then
+            echo "Error: $INPUT not found."
+            exit 1
         fi
-    done < "$INPUT"
-    
-elif [[ "$INPUT" == --* ]]; then
-    # Handle single topic with -- prefix
-    TOPIC="${INPUT:2}"
-    process_topic "$TOPIC" ""
-else
-    # Handle single topic without prefix
-    process_topic "$INPUT" ""
-fi
-
-echo "Done."
\ No newline at end of file
+        echo "Importing keywords from $INPUT..."
+        result=$(api POST /keywords/import -H "Content-Type: text/csv" --data-binary "@$INPUT") || { echo "$result"; exit 1; }
+        echo "$result" | jq '{imported, duplicates: (.duplicates | length), invalid}'
+        start_batch "$(echo "$result" | jq '.keywords')"
+        ;;
+    *)
+        start_batch "$(jq -n --arg topic "$INPUT" '[$topic]')"
+        ;;
+esac
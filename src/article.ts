@@ -0,0 +1,142 @@
+import { z } from 'zod';
+import type { FaqItem } from './faq';
+import type { ChatMessage, ModelRouter } from './llm';
+import type { AuthorPersona } from './personas';
+
+// Zod schema for the article payload returned by the writing model
+export const articleSchema = z.object({
+  title: z.string().trim().min(10).max(120),
+  meta_description: z.string().trim().min(150).max(160),
+  summary: z.string().trim().min(50),
+  handle: z
+    .string()
+    .trim()
+    .min(3)
+    .max(80)
+    .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'must be a lowercase slug of letters, digits and single hyphens'),
+  content: z.string().trim().min(500).regex(/<\/?[a-z][^>]*>/i, 'must be an HTML string'),
+  tags: z.array(z.string().trim().min(1)).min(5).max(7),
+});
+
+export type Article = z.infer<typeof articleSchema>;
+
+// An article as it moves through the pipeline, with the keyword it targets, its author and its FAQ
+export type ArticleContent = Article & { keyword?: string; author_persona?: AuthorPersona; faq?: FaqItem[] };
+
+export type ArticleIssue = {
+  field: string;
+  message: string;
+};
+
+/**
+ * Thrown when the writing model cannot produce a valid article within the allowed attempts.
+ */
+export class ArticleValidationError extends Error {
+  readonly issues: ArticleIssue[];
+  readonly attempts: number;
+
+  constructor(issues: ArticleIssue[], attempts: number) {
+    super(
+      `Article generation failed validation after ${attempts} attempt(s): ${issues.map((i) => `${i.field} ${i.message}`).join('; ')}`
+    );
+    this.name = 'ArticleValidationError';
+    this.issues = issues;
+    this.attempts = attempts;
+  }
+}
+
+/**
+ * Validates a raw model response against the article schema.
+ */
+export function validateArticle(raw: unknown): { article?: Article; issues: ArticleIssue[] } {
+  const result = articleSchema.safeParse(raw);
+  if (result.success) {
+    return { article: result.data, issues: [] };
+  }
+  const issues = result.error.issues.map((issue) => ({
+    field: issue.path.length > 0 ? issue.path.join('.') : 'response',
+    message: issue.message,
+  }));
+  return { issues };
+}
+
+function describeLength(value: unknown): string {
+  return typeof value === 'string' ? ` (currently ${value.length} characters)` : '';
+}
+
+/**
+ * Builds a prompt asking the model to fix only the fields that failed validation.
+ */
+function buildRepairPrompt(draft: Record<string, any>, issues: ArticleIssue[]): string {
+  const fields = [...new Set(issues.map((issue) => issue.field.split('.')[0]))];
+  const problems = issues
+    .map((issue) => {
+      const field = issue.field.split('.')[0];
+      return `- "${issue.field}": ${issue.message}${describeLength(draft[field])}`;
+    })
+    .join('\n');
+
+  // Echo the current values of the failing fields, except the body which the model already has
+  const current = Object.fromEntries(fields.filter((f) => f !== 'content').map((f) => [f, draft[f]]));
+
+  return `Your previous response did not pass validation:
+${problems}
+
+Current values of the failing fields:
+${JSON.stringify(current, null, 2)}
+
+Requirements:
+- "title": SEO-friendly title, 10-120 characters.
+- "meta_description": between 150 and 160 characters, count carefully.
+- "summary": 2-3 sentence summary of at least 50 characters.
+- "handle": lowercase URL slug using only letters, digits and single hyphens.
+- "content": the full article as a single HTML string.
+- "tags": an array of 5 to 7 tags.
+
+Respond with a JSON object containing ONLY the corrected fields: ${fields.map((f) => `"${f}"`).join(', ')}.`;
+}
+
+/**
+ * Generates an article with the writing model, validating every response and sending targeted
+ * repair prompts for the failing fields until it is valid or the retries are exhausted.
+ * @param maxRepairs Number of repair rounds after the initial generation.
+ * @throws ArticleValidationError when no valid article could be produced.
+ */
+export async function generateValidArticle(llm: ModelRouter, messages: ChatMessage[], maxRepairs: number = 2): Promise<Article> {
+  let draft: Record<string, any> = {};
+  let issues: ArticleIssue[] = [];
+
+  for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+    try {
+      if (attempt === 1 || issues.some((issue) => issue.field === 'response')) {
+        draft = await llm.chatJSON('writing', messages);
+      } else {
+        const repairMessages: ChatMessage[] = [
+          ...messages,
+          { role: 'assistant', content: JSON.stringify(draft) },
+          { role: 'user', content: buildRepairPrompt(draft, issues) },
+        ];
+        const patch = await llm.chatJSON('writing', repairMessages, { temperature: 0.3 });
+        draft = { ...draft, ...patch };
+      }
+    } catch (e: any) {
+      // Unparseable output counts as a failed attempt, the next one regenerates from scratch
+      issues = [{ field: 'response', message: e.message || String(e) }];
+      console.warn(`⚠️ Article attempt ${attempt} returned invalid JSON: ${issues[0].message}`);
+      continue;
+    }
+
+    const result = validateArticle(draft);
+    if (result.article) {
+      if (attempt > 1) {
+        console.log(`🩹 Article repaired after ${attempt} attempts`);
+      }
+      return result.article;
+    }
+
+    issues = result.issues;
+    console.warn(`⚠️ Article attempt ${attempt} failed validation: ${issues.map((i) => `${i.field} ${i.message}`).join('; ')}`);
+  }
+
+  throw new ArticleValidationError(issues, maxRepairs + 1);
+}
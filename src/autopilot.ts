@@ -0,0 +1,292 @@
+import { z } from 'zod';
+import type { ShopifyAutobloggerAgent } from './index';
+import type { Keyword, KeywordManager } from './keywords';
+
+// Zod schema for the autopilot configuration stored in SQLite
+const autopilotConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  blogId: z.number().optional(),
+  postsPerDay: z.number().int().min(1).max(24).default(2),
+  weekdaysOnly: z.boolean().default(false),
+  // Publishing window in UTC hours, runs are spread evenly across it
+  startHourUtc: z.number().int().min(0).max(23).default(9),
+  endHourUtc: z.number().int().min(1).max(24).default(17),
+  minPriority: z.number().default(5),
+  maxAttemptsPerKeyword: z.number().int().min(1).default(3),
+  style: z.string().default('informative'),
+  words: z.number().int().positive().default(1500),
+  research: z.enum(['quick', 'comprehensive', 'competitive']).default('comprehensive'),
+  publish: z.boolean().default(true),
+});
+
+export type AutopilotConfig = z.infer<typeof autopilotConfigSchema>;
+
+// Rules that span several settings, checked whenever the configuration changes
+const autopilotUpdateSchema = autopilotConfigSchema.superRefine((config, ctx) => {
+  if (config.endHourUtc <= config.startHourUtc) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['endHourUtc'], message: 'endHourUtc must be greater than startHourUtc' });
+  }
+  if (config.enabled && !config.blogId) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['blogId'], message: 'blogId is required to enable autopilot' });
+  }
+});
+
+/**
+ * Thrown when an autopilot update would leave the configuration invalid.
+ */
+export class AutopilotConfigError extends Error {
+  readonly issues: z.ZodIssue[];
+
+  constructor(issues: z.ZodIssue[]) {
+    super(`Invalid autopilot configuration: ${issues.map((issue) => `${issue.path.join('.') || 'config'} ${issue.message}`).join('; ')}`);
+    this.name = 'AutopilotConfigError';
+    this.issues = issues;
+  }
+}
+
+export type AutopilotRun = {
+  id: string;
+  keyword_id: string | null;
+  keyword: string | null;
+  status: 'success' | 'failed' | 'skipped';
+  article_id: string | null;
+  article_url: string | null;
+  error: string | null;
+  started_at: string;
+  finished_at: string;
+};
+
+const AUTOPILOT_CALLBACK = 'runAutopilot';
+
+export class AutopilotManager {
+  private agent: ShopifyAutobloggerAgent;
+  private keywordManager: KeywordManager;
+
+  constructor(agent: ShopifyAutobloggerAgent, keywordManager: KeywordManager) {
+    this.agent = agent;
+    this.keywordManager = keywordManager;
+  }
+
+  async initSchema(): Promise<void> {
+    await this.agent.sql`
+      CREATE TABLE IF NOT EXISTS autopilot_config (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        config TEXT NOT NULL,
+        updated_at TEXT
+      );
+    `;
+    await this.agent.sql`
+      CREATE TABLE IF NOT EXISTS autopilot_runs (
+        id TEXT PRIMARY KEY,
+        keyword_id TEXT,
+        keyword TEXT,
+        status TEXT,
+        article_id TEXT,
+        article_url TEXT,
+        error TEXT,
+        started_at TEXT,
+        finished_at TEXT
+      );
+    `;
+  }
+
+  async getConfig(): Promise<AutopilotConfig> {
+    const rows = await this.agent.sql<{ config: string }>`SELECT config FROM autopilot_config WHERE id = 1;`;
+    const stored = rows.length > 0 ? JSON.parse(rows[0].config) : {};
+    return autopilotConfigSchema.parse(stored);
+  }
+
+  /**
+   * Merges a partial update into the stored configuration and reschedules the next run.
+   * @throws AutopilotConfigError when the merged configuration is invalid.
+   */
+  async configure(update: Partial<AutopilotConfig>): Promise<AutopilotConfig> {
+    const current = await this.getConfig();
+    const result = autopilotUpdateSchema.safeParse({ ...current, ...update });
+    if (!result.success) {
+      throw new AutopilotConfigError(result.error.issues);
+    }
+    const config = result.data;
+
+    await this.agent.sql`
+      INSERT INTO autopilot_config (id, config, updated_at)
+      VALUES (1, ${JSON.stringify(config)}, ${new Date().toISOString()})
+      ON CONFLICT(id) DO UPDATE SET config = excluded.config, updated_at = excluded.updated_at;
+    `;
+
+    await this.reschedule(config);
+    return config;
+  }
+
+  async pause(): Promise<AutopilotConfig> {
+    return this.configure({ enabled: false });
+  }
+
+  async resume(): Promise<AutopilotConfig> {
+    return this.configure({ enabled: true });
+  }
+
+  /**
+   * Makes sure an enabled autopilot has a pending run, e.g. after a redeploy.
+   */
+  async ensureScheduled(): Promise<void> {
+    const config = await this.getConfig();
+    if (config.enabled && this.getPendingSchedules().length === 0) {
+      await this.reschedule(config);
+    }
+  }
+
+  getPendingSchedules() {
+    return this.agent.getSchedules().filter((s) => s.callback === AUTOPILOT_CALLBACK);
+  }
+
+  /**
+   * Computes the upcoming publishing slots for a configuration.
+   * Slots are spread evenly across the UTC window of each eligible day.
+   */
+  computeRunTimes(config: AutopilotConfig, from: Date, count: number): Date[] {
+    const times: Date[] = [];
+    const windowHours = config.endHourUtc - config.startHourUtc;
+    const intervalMs = (windowHours * 60 * 60 * 1000) / config.postsPerDay;
+
+    const day = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate()));
+    // Bounded look-ahead so a misconfiguration can never loop forever
+    for (let d = 0; d < 14 && times.length < count; d++) {
+      const weekday = day.getUTCDay();
+      const isWeekend = weekday === 0 || weekday === 6;
+
+      if (!(config.weekdaysOnly && isWeekend)) {
+        const windowStart = day.getTime() + config.startHourUtc * 60 * 60 * 1000;
+        for (let slot = 0; slot < config.postsPerDay && times.length < count; slot++) {
+          const time = new Date(windowStart + slot * intervalMs);
+          if (time.getTime() > from.getTime()) {
+            times.push(time);
+          }
+        }
+      }
+
+      day.setUTCDate(day.getUTCDate() + 1);
+    }
+
+    return times;
+  }
+
+  private async reschedule(config: AutopilotConfig): Promise<void> {
+    for (const schedule of this.getPendingSchedules()) {
+      await this.agent.cancelSchedule(schedule.id);
+    }
+
+    if (!config.enabled) {
+      return;
+    }
+
+    const [next] = this.computeRunTimes(config, new Date(), 1);
+    if (next) {
+      await this.agent.schedule(next, AUTOPILOT_CALLBACK, { scheduledFor: next.toISOString() });
+      console.log(`🗓️ Next autopilot run scheduled for ${next.toISOString()}`);
+    }
+  }
+
+  /**
+   * Picks the next keyword from the queue, skipping ones that have failed too often.
+   */
+  private async pickKeyword(config: AutopilotConfig): Promise<Keyword | undefined> {
+    const candidates = await this.keywordManager.getNextKeywords(10, config.minPriority);
+    for (const candidate of candidates) {
+      const failures = await this.agent.sql<{ count: number }>`
+        SELECT COUNT(*) as count FROM autopilot_runs
+        WHERE keyword_id = ${candidate.id} AND status = 'failed';
+      `;
+      if (failures[0].count < config.maxAttemptsPerKeyword) {
+        return candidate;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Executes one scheduled run: publishes a post for the next keyword and schedules the following slot.
+   */
+  async executeRun(): Promise<AutopilotRun> {
+    const config = await this.getConfig();
+    const startedAt = new Date().toISOString();
+    let run: AutopilotRun;
+
+    if (!config.enabled || !config.blogId) {
+      run = this.buildRun(startedAt, 'skipped', undefined, { error: 'Autopilot is paused' });
+    } else {
+      const keyword = await this.pickKeyword(config);
+      if (!keyword) {
+        run = this.buildRun(startedAt, 'skipped', undefined, { error: 'No eligible keywords in the queue' });
+      } else {
+        console.log(`🤖 AUTOPILOT RUN: "${keyword.keyword}"`);
+        try {
+          const article = await this.agent.enhancedAutoBlog(
+            config.blogId,
+            keyword.keyword,
+            config.style,
+            config.words,
+            config.research,
+            config.publish
+          );
+          run = this.buildRun(startedAt, 'success', keyword, {
+            articleId: article?.id?.toString(),
+            articleUrl: article?.handle ? await this.agent.resolveArticleUrl(article) : undefined,
+          });
+        } catch (e: any) {
+          console.error(`❌ Autopilot run failed for "${keyword.keyword}":`, e);
+          run = this.buildRun(startedAt, 'failed', keyword, { error: e.message || String(e) });
+        }
+      }
+    }
+
+    await this.recordRun(run);
+    await this.reschedule(config);
+    return run;
+  }
+
+  private buildRun(
+    startedAt: string,
+    status: AutopilotRun['status'],
+    keyword: Keyword | undefined,
+    details: { articleId?: string; articleUrl?: string; error?: string }
+  ): AutopilotRun {
+    return {
+      id: crypto.randomUUID(),
+      keyword_id: keyword?.id ?? null,
+      keyword: keyword?.keyword ?? null,
+      status,
+      article_id: details.articleId ?? null,
+      article_url: details.articleUrl ?? null,
+      error: details.error ?? null,
+      started_at: startedAt,
+      finished_at: new Date().toISOString(),
+    };
+  }
+
+  private async recordRun(run: AutopilotRun): Promise<void> {
+    await this.agent.sql`
+      INSERT INTO autopilot_runs (id, keyword_id, keyword, status, article_id, article_url, error, started_at, finished_at)
+      VALUES (${run.id}, ${run.keyword_id}, ${run.keyword}, ${run.status}, ${run.article_id}, ${run.article_url}, ${run.error}, ${run.started_at}, ${run.finished_at});
+    `;
+  }
+
+  async getRuns(limit: number = 20): Promise<AutopilotRun[]> {
+    return this.agent.sql<AutopilotRun>`
+      SELECT * FROM autopilot_runs
+      ORDER BY started_at DESC
+      LIMIT ${limit};
+    `;
+  }
+
+  async getStatus(): Promise<any> {
+    const config = await this.getConfig();
+    return {
+      config,
+      paused: !config.enabled,
+      scheduled: this.getPendingSchedules().map((s) => ({ id: s.id, time: new Date(s.time * 1000).toISOString() })),
+      nextRuns: config.enabled ? this.computeRunTimes(config, new Date(), 5).map((t) => t.toISOString()) : [],
+      recentRuns: await this.getRuns(10),
+    };
+  }
+}
@@ -0,0 +1,460 @@
+import { z } from 'zod';
+import type { ShopifyAutobloggerAgent } from './index';
+import type { ModelRouter } from './llm';
+import type { ShopifyClient } from './shopify';
+import type { SiteConfig } from './site-config';
+import { aggregateChunkMatches, normalizeUrl } from './link-audit';
+
+// Zod schema for the link backfill settings in the site configuration
+export const backfillSettingsSchema = z.object({
+  enabled: z.boolean().default(true),
+  // "propose" stores proposals for approval, "auto" applies them straight away
+  mode: z.enum(['propose', 'auto']).default('propose'),
+  // How many older articles are asked to link to each new post
+  maxSourceArticles: z.number().int().min(1).max(10).default(5),
+  // Most backfilled links one older article ever receives, counting pending proposals
+  maxLinksPerArticle: z.number().int().min(1).default(3),
+  // Older articles less similar than this aren't considered
+  minSimilarity: z.number().min(0).max(1).default(0.75),
+});
+
+export type BackfillSettings = z.infer<typeof backfillSettingsSchema>;
+
+export type BackfillStatus = 'proposed' | 'applied' | 'rejected' | 'failed';
+
+export type BackfillTarget = {
+  url: string;
+  title: string;
+  keyword: string;
+};
+
+export type BackfillProposal = {
+  id: string;
+  job_id: string | null;
+  target_url: string;
+  target_title: string;
+  source_url: string;
+  source_title: string;
+  source_blog_id: number;
+  source_article_id: number;
+  similarity: number;
+  sentence: string;
+  anchor_text: string;
+  // The paragraph before and after the link is inserted, for review
+  before_html: string;
+  after_html: string;
+  status: BackfillStatus;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type BackfillAuditEntry = {
+  id: string;
+  proposal_id: string;
+  action: 'proposed' | 'applied' | 'rejected' | 'failed';
+  // "auto" for the pipeline, "api" for a reviewer
+  actor: string;
+  source_url: string;
+  target_url: string;
+  details: string | null;
+  created_at: string;
+};
+
+type Paragraph = { html: string; text: string; start: number; end: number };
+
+// Paragraphs shorter than this rarely have room for a natural link
+const MIN_PARAGRAPH_WORDS = 12;
+// Keeps the placement prompt small for very long articles
+const MAX_PARAGRAPHS_IN_PROMPT = 40;
+
+const placementSchema = z.object({
+  paragraph: z.number().int().nullable(),
+  sentence: z.string().optional(),
+  anchor: z.string().optional(),
+});
+
+function toText(html: string): string {
+  return html
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Top-level text paragraphs and list items of an article, with their position in the HTML.
+ */
+export function extractParagraphs(html: string): Paragraph[] {
+  const paragraphs: Paragraph[] = [];
+  for (const match of html.matchAll(/<(p|li)\b[^>]*>([\s\S]*?)<\/\1>/gi)) {
+    const start = match.index ?? 0;
+    paragraphs.push({ html: match[0], text: toText(match[2]), start, end: start + match[0].length });
+  }
+  return paragraphs;
+}
+
+/**
+ * Whether the HTML already links to the URL, ignoring trailing slashes, query strings and fragments.
+ */
+export function linksTo(html: string, url: string): boolean {
+  const target = normalizeUrl(url, url);
+  for (const match of html.matchAll(/<a\b[^>]*\bhref\s*=\s*(["'])(.*?)\1/gi)) {
+    if (normalizeUrl(match[2], url) === target) return true;
+  }
+  return false;
+}
+
+/**
+ * Wraps the first occurrence of the anchor text that isn't already inside a link or a tag.
+ * @returns The paragraph with the link, or undefined when the anchor can't be linked.
+ */
+export function linkAnchorInParagraph(paragraphHtml: string, anchor: string, url: string): string | undefined {
+  const needles = [...new Set([anchor, escapeHtml(anchor).replace(/&quot;/g, '"')])];
+  const parts = paragraphHtml.split(/(<[^>]+>)/);
+  let linkDepth = 0;
+
+  for (let i = 0; i < parts.length; i++) {
+    const part = parts[i];
+    if (part.startsWith('<')) {
+      if (/^<a\b/i.test(part)) linkDepth++;
+      else if (/^<\/a\s*>/i.test(part)) linkDepth = Math.max(0, linkDepth - 1);
+      continue;
+    }
+    if (linkDepth > 0) continue;
+
+    for (const needle of needles) {
+      let from = 0;
+      let index = part.indexOf(needle);
+      while (index >= 0) {
+        // Only whole words, so "oil" isn't linked inside "toil"
+        const before = part[index - 1];
+        const after = part[index + needle.length];
+        if (!/[\p{L}\p{N}]/u.test(before ?? '') && !/[\p{L}\p{N}]/u.test(after ?? '')) {
+          parts[i] = `${part.substring(0, index)}<a href="${escapeHtml(url)}">${needle}</a>${part.substring(index + needle.length)}`;
+          return parts.join('');
+        }
+        from = index + 1;
+        index = part.indexOf(needle, from);
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Links the anchor inside the paragraph that contains the sentence.
+ * @returns The new article HTML and the paragraph before and after, or undefined when the sentence or anchor isn't found.
+ */
+export function insertBacklink(
+  html: string,
+  placement: { sentence: string; anchor: string },
+  url: string
+): { html: string; before: string; after: string } | undefined {
+  const sentence = placement.sentence.replace(/\s+/g, ' ').trim();
+  if (!sentence.includes(placement.anchor)) return undefined;
+
+  for (const paragraph of extractParagraphs(html)) {
+    if (!paragraph.text.includes(sentence)) continue;
+    const linked = linkAnchorInParagraph(paragraph.html, placement.anchor, url);
+    if (!linked) continue;
+    return { html: `${html.substring(0, paragraph.start)}${linked}${html.substring(paragraph.end)}`, before: paragraph.html, after: linked };
+  }
+  return undefined;
+}
+
+/**
+ * Adds links from older, related articles to newly published posts so they don't start out as orphans.
+ * Each placement is stored as a proposal, applied either by a reviewer or straight away in "auto" mode,
+ * and every step is written to an audit log.
+ */
+export class LinkBackfill {
+  private agent: ShopifyAutobloggerAgent;
+  private llm: ModelRouter;
+  private index: VectorizeIndex;
+  private shopify?: ShopifyClient;
+  private site?: SiteConfig;
+
+  constructor(agent: ShopifyAutobloggerAgent, llm: ModelRouter, index: VectorizeIndex) {
+    this.agent = agent;
+    this.llm = llm;
+    this.index = index;
+  }
+
+  /**
+   * Points backfill at a site's store and settings.
+   */
+  useSite(shopify: ShopifyClient, site: SiteConfig) {
+    this.shopify = shopify;
+    this.site = site;
+  }
+
+  private get context(): { shopify: ShopifyClient; site: SiteConfig } {
+    if (!this.shopify || !this.site) {
+      throw new Error('Link backfill is not configured for a site');
+    }
+    return { shopify: this.shopify, site: this.site };
+  }
+
+  async initSchema(): Promise<void> {
+    await this.agent.sql`
+      CREATE TABLE IF NOT EXISTS link_backfill_proposals (
+        id TEXT PRIMARY KEY,
+        job_id TEXT,
+        target_url TEXT NOT NULL,
+        target_title TEXT NOT NULL,
+        source_url TEXT NOT NULL,
+        source_title TEXT NOT NULL,
+        source_blog_id INTEGER NOT NULL,
+        source_article_id INTEGER NOT NULL,
+        similarity REAL NOT NULL,
+        sentence TEXT NOT NULL,
+        anchor_text TEXT NOT NULL,
+        before_html TEXT NOT NULL,
+        after_html TEXT NOT NULL,
+        status TEXT NOT NULL,
+        error TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `;
+    await this.agent.sql`
+      CREATE TABLE IF NOT EXISTS link_backfill_audit (
+        id TEXT PRIMARY KEY,
+        proposal_id TEXT NOT NULL,
+        action TEXT NOT NULL,
+        actor TEXT NOT NULL,
+        source_url TEXT NOT NULL,
+        target_url TEXT NOT NULL,
+        details TEXT,
+        created_at TEXT NOT NULL
+      );
+    `;
+  }
+
+  /**
+   * Finds the older articles most related to a new post, picks a sentence and anchor in each, and stores
+   * the proposed links. Priority sources, such as the pillar of the post's topic cluster, are tried first
+   * whatever their similarity. In "auto" mode the proposals are applied right away.
+   */
+  async backfill(target: BackfillTarget, jobId?: string, prioritySources: string[] = []): Promise<BackfillProposal[]> {
+    const { shopify, site } = this.context;
+    const settings = site.backfill;
+
+    const [embedding] = await this.llm.embed([`${target.title}\n${target.keyword}`]);
+    const results = await this.index.query(embedding, {
+      topK: 20,
+      namespace: site.vectorizeNamespace,
+      returnMetadata: 'all',
+      filter: { contentType: 'blog' },
+    });
+    const targetKey = normalizeUrl(target.url, target.url);
+    const similar = aggregateChunkMatches(results.matches);
+    const priority = prioritySources.map((url) => similar.find((link) => link.url === url) ?? { url, title: '', score: 0 });
+    const candidates = [...priority, ...similar.filter((link) => link.score >= settings.minSimilarity && !prioritySources.includes(link.url))].filter(
+      (link) => normalizeUrl(link.url, link.url) !== targetKey
+    );
+
+    const proposals: BackfillProposal[] = [];
+    for (const candidate of candidates) {
+      if (proposals.length >= settings.maxSourceArticles) break;
+
+      if ((await this.countLinks(candidate.url, ['proposed', 'applied'])) >= settings.maxLinksPerArticle) {
+        console.log(`🔗 ${candidate.url} already has ${settings.maxLinksPerArticle} backfilled links, skipping it`);
+        continue;
+      }
+      const found = await shopify.findArticleByUrl(candidate.url).catch((e) => {
+        console.warn(`⚠️ Could not look up ${candidate.url}: ${e.message}`);
+        return undefined;
+      });
+      const body: string = found?.article.body_html || '';
+      if (!found || linksTo(body, target.url)) continue;
+
+      const placement = await this.choosePlacement(body, target).catch((e) => {
+        console.warn(`⚠️ Could not choose a link placement in ${candidate.url}: ${e.message}`);
+        return undefined;
+      });
+      if (!placement) {
+        console.log(`🔗 No natural place for a link in ${candidate.url}`);
+        continue;
+      }
+      const inserted = insertBacklink(body, placement, target.url);
+      if (!inserted) {
+        console.warn(`⚠️ Suggested anchor "${placement.anchor}" was not found in ${candidate.url}`);
+        continue;
+      }
+
+      const now = new Date().toISOString();
+      const proposal: BackfillProposal = {
+        id: crypto.randomUUID(),
+        job_id: jobId ?? null,
+        target_url: target.url,
+        target_title: target.title,
+        source_url: candidate.url,
+        source_title: found.article.title || candidate.title,
+        source_blog_id: found.blogId,
+        source_article_id: found.article.id,
+        similarity: candidate.score,
+        sentence: placement.sentence,
+        anchor_text: placement.anchor,
+        before_html: inserted.before,
+        after_html: inserted.after,
+        status: 'proposed',
+        error: null,
+        created_at: now,
+        updated_at: now,
+      };
+      await this.agent.sql`
+        INSERT INTO link_backfill_proposals (id, job_id, target_url, target_title, source_url, source_title, source_blog_id, source_article_id,
+          similarity, sentence, anchor_text, before_html, after_html, status, error, created_at, updated_at)
+        VALUES (${proposal.id}, ${proposal.job_id}, ${proposal.target_url}, ${proposal.target_title}, ${proposal.source_url}, ${proposal.source_title},
+          ${proposal.source_blog_id}, ${proposal.source_article_id}, ${proposal.similarity}, ${proposal.sentence}, ${proposal.anchor_text},
+          ${proposal.before_html}, ${proposal.after_html}, ${proposal.status}, ${proposal.error}, ${proposal.created_at}, ${proposal.updated_at});
+      `;
+      await this.audit(proposal, 'proposed', 'auto', { similarity: proposal.similarity, anchor: proposal.anchor_text });
+      proposals.push(proposal);
+    }
+
+    console.log(`🔗 ${proposals.length} backlinks proposed for ${target.url}`);
+    if (settings.mode === 'auto') {
+      for (let i = 0; i < proposals.length; i++) {
+        proposals[i] = await this.apply(proposals[i].id, 'auto');
+      }
+    }
+    return proposals;
+  }
+
+  /**
+   * Asks the model for a sentence in the article that can carry a link to the new post, and the words to link.
+   */
+  private async choosePlacement(body: string, target: BackfillTarget): Promise<{ sentence: string; anchor: string } | undefined> {
+    const paragraphs = extractParagraphs(body)
+      .filter((p) => p.text.split(' ').length >= MIN_PARAGRAPH_WORDS)
+      .slice(0, MAX_PARAGRAPHS_IN_PROMPT);
+    if (paragraphs.length === 0) return undefined;
+
+    const prompt = `An older blog post should link to a newly published post on the same site.
+
+New post: "${target.title}" (main keyword: "${target.keyword}")
+
+Pick the one sentence in the older post where a link to the new post reads most naturally, and the words in that
+sentence to use as anchor text. The anchor must be 2 to 6 consecutive words copied exactly from the sentence, must
+describe what the new post is about, and must not be a generic phrase like "click here" or "this article".
+Copy the sentence exactly as written. Do not rewrite anything. If no sentence fits naturally, return {"paragraph": null}.
+
+<paragraphs>
+${paragraphs.map((p, i) => `[${i}] ${p.text}`).join('\n')}
+</paragraphs>
+
+Return JSON: {"paragraph": 0, "sentence": "the exact sentence", "anchor": "exact anchor words"}`;
+
+    const response = placementSchema.parse(await this.llm.chatJSON('writing', [{ role: 'user', content: prompt }], { temperature: 0.2 }));
+    if (response.paragraph === null || !response.sentence || !response.anchor) {
+      return undefined;
+    }
+    return { sentence: response.sentence.trim(), anchor: response.anchor.trim() };
+  }
+
+  /**
+   * Inserts a proposed link into the current version of the older article. The article is re-read first,
+   * so edits made since the proposal are kept, and the per-article cap is checked again.
+   */
+  async apply(id: string, actor: string = 'api'): Promise<BackfillProposal> {
+    const { shopify, site } = this.context;
+    const proposal = await this.getProposal(id);
+    if (!proposal) {
+      throw new Error(`Backfill proposal ${id} not found`);
+    }
+    if (proposal.status !== 'proposed') {
+      throw new Error(`Backfill proposal ${id} is already ${proposal.status}`);
+    }
+
+    try {
+      if ((await this.countLinks(proposal.source_url, ['applied'])) >= site.backfill.maxLinksPerArticle) {
+        throw new Error(`${proposal.source_url} already has ${site.backfill.maxLinksPerArticle} backfilled links`);
+      }
+      const article = await shopify.getArticle(proposal.source_blog_id, proposal.source_article_id);
+      const body: string = article?.body_html || '';
+      if (linksTo(body, proposal.target_url)) {
+        throw new Error(`${proposal.source_url} already links to ${proposal.target_url}`);
+      }
+      const inserted = insertBacklink(body, { sentence: proposal.sentence, anchor: proposal.anchor_text }, proposal.target_url);
+      if (!inserted) {
+        throw new Error(`The sentence was changed or removed from ${proposal.source_url}`);
+      }
+
+      await shopify.updateArticle(proposal.source_blog_id, proposal.source_article_id, { body_html: inserted.html });
+      await this.setStatus(proposal, 'applied', null);
+      await this.audit(proposal, 'applied', actor, { before: inserted.before, after: inserted.after });
+      console.log(`🔗 Linked ${proposal.source_url} → ${proposal.target_url} on "${proposal.anchor_text}"`);
+    } catch (e: any) {
+      console.warn(`⚠️ Backfill ${id} failed: ${e.message}`);
+      await this.setStatus(proposal, 'failed', e.message || String(e));
+      await this.audit(proposal, 'failed', actor, { error: proposal.error });
+    }
+    return proposal;
+  }
+
+  async reject(id: string, actor: string = 'api'): Promise<BackfillProposal> {
+    const proposal = await this.getProposal(id);
+    if (!proposal) {
+      throw new Error(`Backfill proposal ${id} not found`);
+    }
+    if (proposal.status !== 'proposed') {
+      throw new Error(`Backfill proposal ${id} is already ${proposal.status}`);
+    }
+    await this.setStatus(proposal, 'rejected', null);
+    await this.audit(proposal, 'rejected', actor, null);
+    return proposal;
+  }
+
+  async getProposal(id: string): Promise<BackfillProposal | undefined> {
+    const rows = await this.agent.sql<BackfillProposal>`SELECT * FROM link_backfill_proposals WHERE id = ${id};`;
+    return rows[0];
+  }
+
+  async listProposals(status?: BackfillStatus, limit: number = 50): Promise<BackfillProposal[]> {
+    return status
+      ? this.agent.sql<BackfillProposal>`SELECT * FROM link_backfill_proposals WHERE status = ${status} ORDER BY created_at DESC LIMIT ${limit};`
+      : this.agent.sql<BackfillProposal>`SELECT * FROM link_backfill_proposals ORDER BY created_at DESC LIMIT ${limit};`;
+  }
+
+  async getAuditLog(limit: number = 100): Promise<BackfillAuditEntry[]> {
+    return this.agent.sql<BackfillAuditEntry>`
+      SELECT * FROM link_backfill_audit
+      ORDER BY created_at DESC
+      LIMIT ${limit};
+    `;
+  }
+
+  private async countLinks(sourceUrl: string, statuses: BackfillStatus[]): Promise<number> {
+    const rows = await this.agent.sql<{ status: BackfillStatus; count: number }>`
+      SELECT status, COUNT(*) as count FROM link_backfill_proposals WHERE source_url = ${sourceUrl} GROUP BY status;
+    `;
+    return rows.filter((row) => statuses.includes(row.status)).reduce((sum, row) => sum + row.count, 0);
+  }
+
+  private async setStatus(proposal: BackfillProposal, status: BackfillStatus, error: string | null): Promise<void> {
+    proposal.status = status;
+    proposal.error = error;
+    proposal.updated_at = new Date().toISOString();
+    await this.agent.sql`
+      UPDATE link_backfill_proposals SET status = ${status}, error = ${error}, updated_at = ${proposal.updated_at} WHERE id = ${proposal.id};
+    `;
+  }
+
+  private async audit(proposal: BackfillProposal, action: BackfillAuditEntry['action'], actor: string, details: Record<string, unknown> | null): Promise<void> {
+    await this.agent.sql`
+      INSERT INTO link_backfill_audit (id, proposal_id, action, actor, source_url, target_url, details, created_at)
+      VALUES (${crypto.randomUUID()}, ${proposal.id}, ${action}, ${actor}, ${proposal.source_url}, ${proposal.target_url},
+        ${details ? JSON.stringify(details) : null}, ${new Date().toISOString()});
+    `;
+  }
+}
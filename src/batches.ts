@@ -0,0 +1,271 @@
+import { z } from 'zod';
+import type { ShopifyAutobloggerAgent } from './index';
+import { type Job, type JobManager, jobParamsSchema } from './jobs';
+import { type KeywordManager, keywordKey } from './keywords';
+
+// Posts generated at the same time by one batch, each one runs the full job pipeline
+const MAX_CONCURRENCY = 5;
+const MAX_BATCH_SIZE = 500;
+
+// Zod schema for POST /batches: the job parameters shared by every post, and the keywords to write about
+export const batchRequestSchema = jobParamsSchema.omit({ topic: true, userPrompt: true }).extend({
+  concurrency: z.number().int().min(1).max(MAX_CONCURRENCY).default(2),
+  keywords: z
+    .array(z.union([z.string().trim().min(1), z.object({ keyword: z.string().trim().min(1), userPrompt: z.string().optional() })]))
+    .max(MAX_BATCH_SIZE)
+    .optional(),
+  // Without explicit keywords, the batch takes the highest-priority new keywords of the queue
+  limit: z.number().int().min(1).max(MAX_BATCH_SIZE).default(25),
+  minPriority: z.number().default(0),
+});
+
+export type BatchRequest = z.infer<typeof batchRequestSchema>;
+
+const batchParamsSchema = jobParamsSchema.omit({ topic: true, userPrompt: true }).extend({
+  concurrency: z.number().int().min(1).max(MAX_CONCURRENCY),
+});
+
+export type BatchParams = z.infer<typeof batchParamsSchema>;
+
+export type BatchStatus = 'running' | 'paused' | 'cancelled' | 'completed';
+
+export type BatchItemStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type BatchItem = {
+  id: string;
+  batch_id: string;
+  position: number;
+  keyword: string;
+  user_prompt: string | null;
+  status: BatchItemStatus;
+  job_id: string | null;
+  article_id: string | null;
+  article_url: string | null;
+  error: string | null;
+  started_at: string | null;
+  finished_at: string | null;
+};
+
+export type Batch = {
+  id: string;
+  status: BatchStatus;
+  params: BatchParams;
+  created_at: string;
+  updated_at: string;
+  counts: Record<BatchItemStatus, number>;
+  items: BatchItem[];
+};
+
+type BatchRow = Omit<Batch, 'params' | 'counts' | 'items'> & { params: string };
+
+/**
+ * Thrown when a batch request leaves no keywords to write about, e.g. an empty keyword queue.
+ */
+export class EmptyBatchError extends Error {
+  constructor() {
+    super('The batch has no keywords');
+    this.name = 'EmptyBatchError';
+  }
+}
+
+/**
+ * Server-side runs of the post pipeline over a set of keywords. A batch keeps up to its concurrency
+ * limit of jobs running and records the outcome of each keyword. Pausing stops new jobs from starting,
+ * cancelling also drops the keywords that haven't started; jobs already running always finish.
+ */
+export class BatchManager {
+  private agent: ShopifyAutobloggerAgent;
+  private jobManager: JobManager;
+  private keywordManager: KeywordManager;
+  // Claims run one at a time so two finishing items can't both fill the same free slot
+  private claiming: Promise<unknown> = Promise.resolve();
+
+  constructor(agent: ShopifyAutobloggerAgent, jobManager: JobManager, keywordManager: KeywordManager) {
+    this.agent = agent;
+    this.jobManager = jobManager;
+    this.keywordManager = keywordManager;
+  }
+
+  async initSchema(): Promise<void> {
+    await this.agent.sql`
+      CREATE TABLE IF NOT EXISTS batches (
+        id TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        params TEXT NOT NULL,
+        created_at TEXT,
+        updated_at TEXT
+      );
+    `;
+    await this.agent.sql`
+      CREATE TABLE IF NOT EXISTS batch_items (
+        id TEXT PRIMARY KEY,
+        batch_id TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        keyword TEXT NOT NULL,
+        user_prompt TEXT,
+        status TEXT NOT NULL,
+        job_id TEXT,
+        article_id TEXT,
+        article_url TEXT,
+        error TEXT,
+        started_at TEXT,
+        finished_at TEXT
+      );
+    `;
+  }
+
+  /**
+   * Stores a batch and its keywords. Keywords are deduplicated, and imported ones pick up their stored prompt.
+   */
+  async createBatch(request: BatchRequest): Promise<Batch> {
+    const { keywords, limit, minPriority, ...params } = request;
+    const stored = new Map((await this.keywordManager.exportKeywords()).map((row) => [keywordKey(row.keyword), row]));
+
+    const entries = keywords
+      ? keywords.map((entry) => (typeof entry === 'string' ? { keyword: entry, userPrompt: undefined } : entry))
+      : (await this.keywordManager.getNextKeywords(limit, minPriority)).map((kw) => ({ keyword: kw.keyword, userPrompt: undefined }));
+    const seen = new Set<string>();
+    const items = entries.filter((entry) => {
+      const key = keywordKey(entry.keyword);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+    if (items.length === 0) {
+      throw new EmptyBatchError();
+    }
+
+    const id = crypto.randomUUID();
+    const now = new Date().toISOString();
+    await this.agent.sql`
+      INSERT INTO batches (id, status, params, created_at, updated_at) VALUES (${id}, 'running', ${JSON.stringify(params)}, ${now}, ${now});
+    `;
+    for (const [position, item] of items.entries()) {
+      const userPrompt = item.userPrompt || stored.get(keywordKey(item.keyword))?.user_prompt || null;
+      await this.agent.sql`
+        INSERT INTO batch_items (id, batch_id, position, keyword, user_prompt, status)
+        VALUES (${crypto.randomUUID()}, ${id}, ${position}, ${item.keyword}, ${userPrompt}, 'pending');
+      `;
+    }
+
+    console.log(`📦 Batch ${id} created with ${items.length} keywords (concurrency ${params.concurrency})`);
+    return (await this.getBatch(id)) as Batch;
+  }
+
+  async getBatch(id: string): Promise<Batch | undefined> {
+    const [row] = await this.agent.sql<BatchRow>`SELECT * FROM batches WHERE id = ${id};`;
+    if (!row) return undefined;
+    const items = await this.agent.sql<BatchItem>`SELECT * FROM batch_items WHERE batch_id = ${id} ORDER BY position;`;
+    const counts: Record<BatchItemStatus, number> = { pending: 0, running: 0, completed: 0, failed: 0, cancelled: 0 };
+    for (const item of items) counts[item.status]++;
+    return { ...row, params: batchParamsSchema.parse(JSON.parse(row.params)), counts, items };
+  }
+
+  async listBatches(limit: number = 20): Promise<Array<Omit<Batch, 'items'>>> {
+    const rows = await this.agent.sql<{ id: string }>`SELECT id FROM batches ORDER BY created_at DESC LIMIT ${limit};`;
+    const batches: Array<Omit<Batch, 'items'>> = [];
+    for (const row of rows) {
+      const batch = await this.getBatch(row.id);
+      if (batch) {
+        const { items: _items, ...summary } = batch;
+        batches.push(summary);
+      }
+    }
+    return batches;
+  }
+
+  async pause(id: string): Promise<Batch> {
+    return this.transition(id, ['running'], 'paused');
+  }
+
+  async resume(id: string): Promise<Batch> {
+    return this.transition(id, ['paused'], 'running');
+  }
+
+  async cancel(id: string): Promise<Batch> {
+    const batch = await this.transition(id, ['running', 'paused'], 'cancelled');
+    await this.agent.sql`
+      UPDATE batch_items SET status = 'cancelled', finished_at = ${new Date().toISOString()}
+      WHERE batch_id = ${id} AND status = 'pending';
+    `;
+    return (await this.getBatch(batch.id)) as Batch;
+  }
+
+  private async transition(id: string, from: BatchStatus[], to: BatchStatus): Promise<Batch> {
+    const batch = await this.getBatch(id);
+    if (!batch) {
+      throw new Error(`Batch ${id} not found`);
+    }
+    if (!from.includes(batch.status)) {
+      throw new Error(`Batch ${id} is ${batch.status}, it can't be ${to}`);
+    }
+    await this.setStatus(id, to);
+    console.log(`📦 Batch ${id} ${to}`);
+    return { ...batch, status: to };
+  }
+
+  private async setStatus(id: string, status: BatchStatus): Promise<void> {
+    await this.agent.sql`UPDATE batches SET status = ${status}, updated_at = ${new Date().toISOString()} WHERE id = ${id};`;
+  }
+
+  /**
+   * Starts jobs for the next pending keywords of a running batch, up to its free concurrency slots.
+   * Returns the items that were started, with their job ids.
+   */
+  claimItems(batchId: string): Promise<BatchItem[]> {
+    const claimed = this.claiming.then(() => this.claim(batchId));
+    this.claiming = claimed.catch(() => undefined);
+    return claimed;
+  }
+
+  private async claim(batchId: string): Promise<BatchItem[]> {
+    const batch = await this.getBatch(batchId);
+    if (!batch || batch.status !== 'running') return [];
+
+    const { concurrency, ...params } = batch.params;
+    const free = concurrency - batch.counts.running;
+    const next = batch.items.filter((item) => item.status === 'pending').slice(0, Math.max(free, 0));
+    const claimed: BatchItem[] = [];
+    for (const item of next) {
+      const job = await this.jobManager.createJob({ ...params, topic: item.keyword, userPrompt: item.user_prompt ?? undefined });
+      const startedAt = new Date().toISOString();
+      await this.agent.sql`
+        UPDATE batch_items SET status = 'running', job_id = ${job.id}, started_at = ${startedAt} WHERE id = ${item.id};
+      `;
+      claimed.push({ ...item, status: 'running', job_id: job.id, started_at: startedAt });
+    }
+    if (batch.counts.running === 0 && next.length === 0) {
+      await this.setStatus(batchId, 'completed');
+      console.log(`📦 Batch ${batchId} completed: ${batch.counts.completed} posts, ${batch.counts.failed} failed`);
+    }
+    return claimed;
+  }
+
+  /**
+   * Records the outcome of an item's job, or the error that kept it from running.
+   */
+  async finishItem(item: BatchItem, job: Job | undefined, error?: string): Promise<void> {
+    const article = job?.status === 'completed' ? job.artifacts.article : undefined;
+    const articleUrl = article?.handle ? await this.agent.resolveArticleUrl(article) : null;
+    await this.agent.sql`
+      UPDATE batch_items
+      SET status = ${article ? 'completed' : 'failed'},
+          article_id = ${article?.id?.toString() ?? null},
+          article_url = ${articleUrl},
+          error = ${article ? null : (error ?? job?.error ?? 'Job did not complete')},
+          finished_at = ${new Date().toISOString()}
+      WHERE id = ${item.id};
+    `;
+  }
+
+  /**
+   * Items whose job was running when the agent last stopped, so they can be picked up again.
+   */
+  async getInterruptedItems(): Promise<BatchItem[]> {
+    return this.agent.sql<BatchItem>`SELECT * FROM batch_items WHERE status = 'running' ORDER BY batch_id, position;`;
+  }
+
+  async getRunningBatchIds(): Promise<string[]> {
+    return (await this.agent.sql<{ id: string }>`SELECT id FROM batches WHERE status = 'running';`).map((row) => row.id);
+  }
+}
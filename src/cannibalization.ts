@@ -0,0 +1,118 @@
+import { z } from 'zod';
+import type { ModelRouter } from './llm';
+import { normalizeUrl } from './link-audit';
+
+// Zod schema for the cannibalization settings in the site configuration
+export const cannibalizationSettingsSchema = z.object({
+  // Similarity at which an existing post covers part of the same topic
+  overlapThreshold: z.number().min(0).max(1).default(0.8),
+  // Similarity at which an existing post targets the same search intent
+  cannibalizationThreshold: z.number().min(0).max(1).default(0.9),
+  // What happens to a cannibalizing post: fail it, save it as a draft, or rewrite the existing post instead
+  policy: z.enum(['block', 'draft', 'refresh']).default('draft'),
+});
+
+export type CannibalizationSettings = z.infer<typeof cannibalizationSettingsSchema>;
+
+export type CannibalizationVerdict = 'safe' | 'overlap' | 'cannibalizing';
+
+export type CannibalizationAction = 'proceed' | 'block' | 'draft' | 'refresh';
+
+export type CannibalizationConflict = {
+  url: string;
+  title: string;
+  primaryKeyword: string;
+  score: number;
+  // Which query found the post, or "exact" when it targets the same primary keyword
+  matchedOn: 'keyword' | 'title' | 'exact';
+};
+
+export type CannibalizationResult = {
+  keyword: string;
+  title?: string;
+  verdict: CannibalizationVerdict;
+  action: CannibalizationAction;
+  conflicts: CannibalizationConflict[];
+  checked_at: string;
+};
+
+/**
+ * Thrown when the policy blocks a post that would compete with existing content.
+ */
+export class CannibalizationError extends Error {
+  readonly result: CannibalizationResult;
+
+  constructor(result: CannibalizationResult) {
+    super(`"${result.keyword}" cannibalizes existing content: ${result.conflicts.map((c) => c.url).join(', ')}`);
+    this.name = 'CannibalizationError';
+    this.result = result;
+  }
+}
+
+function normalizeKeyword(keyword: string): string {
+  return keyword.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+/**
+ * Compares a target keyword, and the draft title once there is one, with the existing blog posts in Vectorize.
+ * Conflicts are ordered by similarity, most similar first.
+ */
+export async function checkCannibalization(
+  llm: ModelRouter,
+  index: VectorizeIndex,
+  keyword: string,
+  settings: CannibalizationSettings,
+  options: { title?: string; namespace?: string } = {}
+): Promise<CannibalizationResult> {
+  const queries: Array<{ text: string; matchedOn: 'keyword' | 'title' }> = [{ text: keyword, matchedOn: 'keyword' }];
+  if (options.title) {
+    queries.push({ text: options.title, matchedOn: 'title' });
+  }
+  const embeddings = await llm.embed(queries.map((q) => q.text));
+
+  const conflicts = new Map<string, CannibalizationConflict>();
+  const target = normalizeKeyword(keyword);
+
+  for (let i = 0; i < queries.length; i++) {
+    const results = await index.query(embeddings[i], {
+      topK: 10,
+      namespace: options.namespace,
+      returnMetadata: 'all',
+      filter: { contentType: 'blog' },
+    });
+
+    for (const match of results.matches) {
+      const url = match.metadata?.url as string | undefined;
+      if (!url) continue;
+      const primaryKeyword = (match.metadata?.primaryKeyword as string | undefined) || '';
+      const exact = primaryKeyword !== '' && normalizeKeyword(primaryKeyword) === target;
+      if (!exact && match.score < settings.overlapThreshold) continue;
+
+      // Posts can have several vectors, keep the strongest match per URL
+      const key = normalizeUrl(url, url) ?? url;
+      const previous = conflicts.get(key);
+      if (!previous || match.score > previous.score || exact) {
+        conflicts.set(key, {
+          url,
+          title: (match.metadata?.title as string | undefined) || '',
+          primaryKeyword,
+          score: Math.round(Math.max(match.score, previous?.score ?? 0) * 1000) / 1000,
+          matchedOn: exact || previous?.matchedOn === 'exact' ? 'exact' : queries[i].matchedOn,
+        });
+      }
+    }
+  }
+
+  const sorted = [...conflicts.values()].sort((a, b) => b.score - a.score);
+  const cannibalizing = sorted.some((c) => c.matchedOn === 'exact' || c.score >= settings.cannibalizationThreshold);
+  const verdict: CannibalizationVerdict = cannibalizing ? 'cannibalizing' : sorted.length > 0 ? 'overlap' : 'safe';
+
+  return {
+    keyword,
+    title: options.title,
+    verdict,
+    action: verdict === 'cannibalizing' ? settings.policy : 'proceed',
+    conflicts: sorted,
+    checked_at: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,110 @@
+// Chunks are cut at headings, and long sections are split further at paragraph boundaries
+const MAX_CHUNK_WORDS = 300;
+// Keeps a single very long page from filling the index
+const MAX_CHUNKS_PER_PAGE = 20;
+
+export type PageChunk = {
+  index: number;
+  // Nearest heading above the chunk, empty for the introduction
+  heading: string;
+  // Deep link to the section, the heading's id when it has one, otherwise a text fragment
+  anchorUrl: string;
+  text: string;
+};
+
+const ENTITIES: Record<string, string> = { '&nbsp;': ' ', '&amp;': '&', '&lt;': '<', '&gt;': '>', '&quot;': '"', '&#39;': "'", '&apos;': "'" };
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&(?:nbsp|amp|lt|gt|quot|apos|#39);/g, (entity) => ENTITIES[entity])
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(Number.parseInt(code, 16)));
+}
+
+function toText(html: string): string {
+  return decodeEntities(html.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+}
+
+function wordCount(text: string): number {
+  return text ? text.split(' ').length : 0;
+}
+
+/**
+ * Reduces a page or feed item to the HTML of its readable content: drops scripts, styles, forms and
+ * page chrome, and keeps only the <main> element when there is one.
+ */
+export function extractMainContent(html: string): string {
+  const main = html.match(/<main\b[^>]*>([\s\S]*?)<\/main>/i)?.[1] ?? html.match(/<body\b[^>]*>([\s\S]*?)<\/body>/i)?.[1] ?? html;
+  return main
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .replace(/<(script|style|noscript|svg|template|form|nav|header|footer|iframe)\b[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<(script|style|noscript|svg|template|form|nav|header|footer|iframe)\b[^>]*\/?>/gi, ' ');
+}
+
+function anchorFor(pageUrl: string, headingTag: string, heading: string): string {
+  const id = headingTag.match(/\bid\s*=\s*(["'])(.*?)\1/i)?.[2];
+  if (id) {
+    return `${pageUrl}#${encodeURIComponent(id)}`;
+  }
+  // Text fragments scroll to the heading in browsers that support them and are ignored elsewhere
+  return `${pageUrl}#:~:text=${encodeURIComponent(heading)}`;
+}
+
+function splitLongSection(paragraphs: string[]): string[] {
+  const parts: string[] = [];
+  let current: string[] = [];
+  let words = 0;
+  for (const paragraph of paragraphs) {
+    const count = wordCount(paragraph);
+    if (words > 0 && words + count > MAX_CHUNK_WORDS) {
+      parts.push(current.join(' '));
+      current = [];
+      words = 0;
+    }
+    current.push(paragraph);
+    words += count;
+  }
+  if (current.length > 0) {
+    parts.push(current.join(' '));
+  }
+  return parts;
+}
+
+/**
+ * Splits a page into heading-aware text chunks. Each chunk starts with the page title and its
+ * section heading so it embeds with its context.
+ */
+export function chunkPage(html: string, pageUrl: string, title: string): PageChunk[] {
+  const content = extractMainContent(html);
+  const sections: Array<{ heading: string; anchorUrl: string; html: string }> = [];
+
+  const headingRegex = /<(h[1-4])\b[^>]*>([\s\S]*?)<\/\1>/gi;
+  let lastIndex = 0;
+  let current = { heading: '', anchorUrl: pageUrl, html: '' };
+  for (const match of content.matchAll(headingRegex)) {
+    current.html = content.substring(lastIndex, match.index);
+    sections.push(current);
+    // The H1 is the page title, so its text belongs to the introduction
+    const heading = match[1].toLowerCase() === 'h1' ? '' : toText(match[2]);
+    current = { heading, anchorUrl: heading ? anchorFor(pageUrl, match[0], heading) : pageUrl, html: '' };
+    lastIndex = (match.index ?? 0) + match[0].length;
+  }
+  current.html = content.substring(lastIndex);
+  sections.push(current);
+
+  const chunks: PageChunk[] = [];
+  for (const section of sections) {
+    const paragraphs = section.html
+      .split(/<\/?(?:p|div|li|br|tr|section|article|blockquote|table|ul|ol)\b[^>]*>/i)
+      .map(toText)
+      .filter(Boolean);
+    if (paragraphs.length === 0) continue;
+
+    for (const part of splitLongSection(paragraphs)) {
+      const prefix = [title, section.heading].filter(Boolean).join(' - ');
+      chunks.push({ index: chunks.length, heading: section.heading, anchorUrl: section.anchorUrl, text: `${prefix}\n${part}` });
+    }
+  }
+
+  return chunks.slice(0, MAX_CHUNKS_PER_PAGE);
+}
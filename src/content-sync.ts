@@ -1,15 +1,10 @@
 import { z } from 'zod';
-import { fetchAllSiteUrls } from './sitemap';
-
-// Zod schema for parsing RSS feed items
-const itemSchema = z.object({
-  id: z.string(),
-  title: z.string(),
-  link: z.string().url(),
-  description: z.string(),
-  pubDate: z.string(),
-  h1: z.string().optional(),
-});
+import type { ShopifyAutobloggerAgent } from './index';
+import { fetchAllSiteUrls, type SitemapUrl } from './sitemap';
+import { fetchFeeds, type FeedItem, type FeedRejection } from './feeds';
+import type { SiteConfig } from './site-config';
+import type { ModelRouter } from './llm';
+import { chunkPage, type PageChunk } from './chunking';
 
 // Schema for different content types
 const contentItemSchema = z.object({
@@ -20,170 +15,467 @@ const contentItemSchema = z.object({
   pubDate: z.string(),
   primaryKeyword: z.string(),
   contentType: z.enum(['blog', 'product', 'collection']),
+  categories: z.array(z.string()).default([]),
+  author: z.string().optional(),
+  images: z.array(z.string().url()).default([]),
 });
 
-type RssItem = z.infer<typeof itemSchema>;
-type ContentItem = z.infer<typeof contentItemSchema>;
+export type ContentItem = z.infer<typeof contentItemSchema>;
+export type ContentType = ContentItem['contentType'];
+
+export type InventoryItem = {
+  url: string;
+  content_type: ContentType;
+  title: string;
+  primary_keyword: string;
+  content_hash: string;
+  lastmod: string | null;
+  vector_ids: string[];
+  first_seen_at: string;
+  synced_at: string;
+};
+
+type InventoryRow = Omit<InventoryItem, 'vector_ids'> & { vector_ids: string };
+
+export type SyncRejection = FeedRejection & { run_id: string; created_at: string };
+
+type SyncRejectionRow = Omit<SyncRejection, 'errors'> & { errors: string };
+
+type ChangedItem = { item: ContentItem; chunks: PageChunk[]; hash: string; previous?: InventoryItem };
+
+export type SyncRun = {
+  id: string;
+  status: 'running' | 'completed' | 'failed';
+  fetched: number;
+  added: number;
+  updated: number;
+  unchanged: number;
+  deleted: number;
+  // Feed items and pages that couldn't be used, see getRejections
+  rejected: number;
+  // Content types whose sources returned nothing or partly failed to load, so nothing of that type was deleted
+  skipped_deletions: string;
+  error: string | null;
+  started_at: string;
+  finished_at: string | null;
+};
 
 /**
- * Fetches and parses the RSS feed, returning a list of blog post items.
- * @param url The URL of the RSS feed.
- * @returns A promise that resolves to an array of RssItem objects.
+ * Fetches a storefront page's HTML, or undefined when it can't be loaded.
  */
-async function parseRssFeed(url: string): Promise<RssItem[]> {
+async function fetchPageHtml(url: string): Promise<string | undefined> {
   try {
     const response = await fetch(url);
     if (!response.ok) {
-      console.error(`Failed to fetch RSS feed: ${url} - Status: ${response.status}`);
-      return [];
+      console.warn(`Failed to fetch page: ${url} - Status: ${response.status}`);
+      return undefined;
     }
-    const xmlText = await response.text();
-    
-    const itemBlocks = xmlText.match(/<item>([\s\S]*?)<\/item>/g);
-    if (!itemBlocks) return [];
-
-    const items: RssItem[] = itemBlocks.map(block => {
-      const guidMatch = block.match(/<guid[^>]*>([\s\S]*?)<\/guid>/);
-      const titleMatch = block.match(/<title>([\s\S]*?)<\/title>/);
-      const linkMatch = block.match(/<link>([^<]+)<\/link>/);
-      const descriptionMatch = block.match(/<description>([\s\S]*?)<\/description>/);
-      const pubDateMatch = block.match(/<pubDate>([^<]+)<\/pubDate>/);
-      
-      let title = titleMatch ? titleMatch[1].replace('<![CDATA[', '').replace(']]>', '') : 'Untitled';
-      let description = descriptionMatch ? descriptionMatch[1].replace('<![CDATA[', '').replace(']]>', '') : '';
-
-      // Extract H1 from the description (which contains the HTML content)
-      const h1Match = description.match(/<h1[^>]*>([\s\S]*?)<\/h1>/i);
-      const h1 = h1Match ? h1Match[1].trim() : title; // Fallback to title if H1 not found
-
-      return {
-        id: guidMatch ? guidMatch[1] : '',
-        title: title,
-        link: linkMatch ? linkMatch[1] : '',
-        description: description,
-        pubDate: pubDateMatch ? pubDateMatch[1] : new Date().toISOString(),
-        h1: h1,
-      };
-    }).filter(item => item.id && item.link && item.description);
-
-    return items;
+    return await response.text();
   } catch (error) {
-    console.error(`Error parsing RSS feed ${url}:`, error);
-    return [];
+    console.warn(`Error fetching page ${url}:`, error);
+    return undefined;
   }
 }
 
 /**
- * Converts collection URLs to ContentItems
+ * Converts collection URLs to ContentItems, reading each collection page for its text
  */
-async function processCollections(collections: Array<{loc: string, lastmod?: string}>): Promise<ContentItem[]> {
-  return collections.map(collection => {
+async function processCollections(collections: SitemapUrl[]): Promise<ContentItem[]> {
+  const items: ContentItem[] = [];
+  // One page at a time to stay polite to the storefront
+  for (const collection of collections) {
     const pathSegments = collection.loc.split('/');
     const collectionName = pathSegments[pathSegments.length - 1];
     const title = collectionName.replace(/-/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
+    const html = await fetchPageHtml(collection.loc);
     
-    return {
+    items.push({
       id: collection.loc,
-      title: title,
+      title: html?.match(/<h1[^>]*>([\s\S]*?)<\/h1>/i)?.[1].replace(/<[^>]+>/g, '').trim() || title,
       url: collection.loc,
-      description: `Shop our ${title} collection`,
+      description: html || `Shop our ${title} collection`,
       pubDate: collection.lastmod || new Date().toISOString(),
       primaryKeyword: title,
       contentType: 'collection' as const,
-    };
-  });
+      categories: [],
+      images: collection.images.map((image) => image.loc),
+    });
+  }
+  return items;
 }
 
 /**
- * Converts RSS items to ContentItems
+ * Converts feed items to ContentItems, reporting any that don't fit the schema
  */
-function convertRssToContentItems(rssItems: RssItem[], contentType: 'blog' | 'product'): ContentItem[] {
-  return rssItems.map(item => {
-    const h1 = item.h1 || item.title;
-    return {
+function convertFeedToContentItems(feedItems: FeedItem[], contentType: 'blog' | 'product', rejected: FeedRejection[]): ContentItem[] {
+  const items: ContentItem[] = [];
+  for (const item of feedItems) {
+    const result = contentItemSchema.safeParse({
       id: item.id,
       title: item.title,
       url: item.link,
       description: item.description,
       pubDate: item.pubDate,
-      primaryKeyword: h1,
+      primaryKeyword: item.h1 || item.title,
       contentType,
-    };
-  });
+      categories: item.categories,
+      author: item.author,
+      images: item.images,
+    });
+    if (result.success) {
+      items.push(result.data);
+    } else {
+      rejected.push({
+        feed: `${contentType} feeds`,
+        id: item.id,
+        link: item.link,
+        title: item.title,
+        errors: result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+      });
+    }
+  }
+  return items;
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Cleaned, heading-aware chunks of an item, falling back to its title when the page has no text.
+ */
+function chunksFor(item: ContentItem): PageChunk[] {
+  const chunks = chunkPage(item.description, item.url, item.title);
+  return chunks.length > 0 ? chunks : [{ index: 0, heading: '', anchorUrl: item.url, text: item.title }];
+}
+
+/**
+ * Fingerprint of everything that goes into an item's vectors and metadata, so unchanged items aren't re-embedded.
+ */
+function contentHash(item: ContentItem, chunks: PageChunk[]): Promise<string> {
+  return sha256([item.contentType, item.title, item.primaryKeyword, item.categories.join(','), ...chunks.map((c) => `${c.anchorUrl}\n${c.text}`)].join('\n'));
 }
 
 /**
- * The main function for the /sync-posts endpoint.
+ * Vectorize ids are limited to 64 bytes, too short for some URLs, so ids are derived from a hash of the URL
+ * plus the chunk number.
  */
-export async function syncPosts(env: any): Promise<Response> {
-  console.log('Starting comprehensive content sync process...');
-  
-  // Fetch content from multiple sources
-  const [blogPosts, productPosts, sitemapData] = await Promise.all([
-    parseRssFeed('https://royalpheromones.com/a/rssfeed?type=blog&key=articles'),
-    parseRssFeed('https://royalpheromones.com/a/rssfeed'),
-    fetchAllSiteUrls()
+async function vectorIdFor(url: string, chunkIndex: number): Promise<string> {
+  return `content-${(await sha256(url)).substring(0, 40)}-${chunkIndex}`;
+}
+
+/**
+ * Fetches every blog post, product and collection the site's feeds and sitemaps list, along with
+ * the feed items that had to be rejected and the content types whose feed pages or sitemaps failed to load.
+ */
+async function fetchSiteContent(site: SiteConfig): Promise<{ items: ContentItem[]; rejected: FeedRejection[]; failedTypes: Set<ContentType> }> {
+  const [blogFeeds, productFeeds, sitemapData] = await Promise.all([
+    fetchFeeds(site.feeds.blog),
+    fetchFeeds(site.feeds.product),
+    fetchAllSiteUrls(site.domain, site.sitemaps),
   ]);
-  
-  // Convert all content to unified format
-  const blogItems = convertRssToContentItems(blogPosts, 'blog');
-  const productItems = convertRssToContentItems(productPosts, 'product');
-  const collectionItems = await processCollections(sitemapData.collections);
-  
-  const allContent = [...blogItems, ...productItems, ...collectionItems];
-  let upsertedCount = 0;
-
-  if (allContent.length === 0) {
-    return new Response(JSON.stringify({ success: true, upsertedCount: 0, message: 'No content found to sync.' }), {
-      headers: { 'Content-Type': 'application/json' },
-    });
+
+  const rejected = [...blogFeeds.rejected, ...productFeeds.rejected];
+  const items = [
+    ...convertFeedToContentItems(blogFeeds.items, 'blog', rejected),
+    ...convertFeedToContentItems(productFeeds.items, 'product', rejected),
+    ...(await processCollections(sitemapData.collections)),
+  ];
+
+  // Feeds can list the same page twice, the first entry wins
+  const byUrl = new Map<string, ContentItem>();
+  for (const item of items) {
+    if (!byUrl.has(item.url)) byUrl.set(item.url, item);
   }
-  
-  console.log(`Found ${blogItems.length} blogs, ${productItems.length} products, ${collectionItems.length} collections`);
+  const failedTypes = new Set<ContentType>();
+  if (blogFeeds.failed.length > 0) failedTypes.add('blog');
+  if (productFeeds.failed.length > 0) failedTypes.add('product');
+  if (sitemapData.failedSitemaps.length > 0) failedTypes.add('collection');
+  return { items: [...byUrl.values()], rejected, failedTypes };
+}
 
-  const chunkSize = 20;
-  for (let i = 0; i < allContent.length; i += chunkSize) {
-    const chunk = allContent.slice(i, i + chunkSize);
-    
-    const vectors: VectorizeVector[] = [];
+/**
+ * Inventory of the site's existing pages in SQLite, kept in step with their vectors in Vectorize.
+ * Sync diffs the feeds and sitemaps against it, so only new and changed pages are embedded and
+ * vectors of pages that disappeared are deleted.
+ */
+export class ContentInventory {
+  private agent: ShopifyAutobloggerAgent;
+  private llm: ModelRouter;
+  private index: VectorizeIndex;
+
+  constructor(agent: ShopifyAutobloggerAgent, llm: ModelRouter, index: VectorizeIndex) {
+    this.agent = agent;
+    this.llm = llm;
+    this.index = index;
+  }
+
+  async initSchema(): Promise<void> {
+    await this.agent.sql`
+      CREATE TABLE IF NOT EXISTS content_inventory (
+        url TEXT PRIMARY KEY,
+        content_type TEXT NOT NULL,
+        title TEXT NOT NULL,
+        primary_keyword TEXT,
+        content_hash TEXT NOT NULL,
+        lastmod TEXT,
+        vector_ids TEXT NOT NULL,
+        first_seen_at TEXT NOT NULL,
+        synced_at TEXT NOT NULL
+      );
+    `;
+    await this.agent.sql`
+      CREATE TABLE IF NOT EXISTS content_sync_runs (
+        id TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        fetched INTEGER DEFAULT 0,
+        added INTEGER DEFAULT 0,
+        updated INTEGER DEFAULT 0,
+        unchanged INTEGER DEFAULT 0,
+        deleted INTEGER DEFAULT 0,
+        skipped_deletions TEXT DEFAULT '',
+        error TEXT,
+        started_at TEXT NOT NULL,
+        finished_at TEXT
+      );
+    `;
+    await this.agent.sql`
+      CREATE TABLE IF NOT EXISTS content_sync_rejections (
+        run_id TEXT NOT NULL,
+        feed TEXT NOT NULL,
+        id TEXT,
+        link TEXT,
+        title TEXT,
+        errors TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+    `;
+  }
+
+  /**
+   * Brings the inventory and Vectorize in line with the site's feeds and sitemaps.
+   * Never throws, failures are recorded on the run.
+   */
+  async sync(site: SiteConfig): Promise<SyncRun> {
+    const run: SyncRun = {
+      id: crypto.randomUUID(),
+      status: 'running',
+      fetched: 0,
+      added: 0,
+      updated: 0,
+      unchanged: 0,
+      deleted: 0,
+      rejected: 0,
+      skipped_deletions: '',
+      error: null,
+      started_at: new Date().toISOString(),
+      finished_at: null,
+    };
+    await this.agent.sql`
+      INSERT INTO content_sync_runs (id, status, started_at) VALUES (${run.id}, ${run.status}, ${run.started_at});
+    `;
+
+    try {
+      console.log(`🔄 Starting content sync for ${site.domain}...`);
+      const { items, rejected, failedTypes } = await fetchSiteContent(site);
+      run.fetched = items.length;
+      run.rejected = rejected.length;
+      for (const rejection of rejected) {
+        await this.agent.sql`
+          INSERT INTO content_sync_rejections (run_id, feed, id, link, title, errors, created_at)
+          VALUES (${run.id}, ${rejection.feed}, ${rejection.id ?? null}, ${rejection.link ?? null}, ${rejection.title ?? null}, ${JSON.stringify(rejection.errors)}, ${run.started_at});
+        `;
+      }
+      // Rejections are kept for the last few runs only
+      await this.agent.sql`
+        DELETE FROM content_sync_rejections
+        WHERE run_id NOT IN (SELECT id FROM content_sync_runs ORDER BY started_at DESC LIMIT 20);
+      `;
+
+      const existing = new Map((await this.listItems()).map((item) => [item.url, item]));
+      const changed: ChangedItem[] = [];
+      const now = new Date().toISOString();
+
+      for (const item of items) {
+        const chunks = chunksFor(item);
+        const hash = await contentHash(item, chunks);
+        const previous = existing.get(item.url);
+        existing.delete(item.url);
+        if (previous && previous.content_hash === hash) {
+          run.unchanged++;
+          await this.agent.sql`UPDATE content_inventory SET lastmod = ${item.pubDate}, synced_at = ${now} WHERE url = ${item.url};`;
+          continue;
+        }
+        changed.push({ item, chunks, hash, previous });
+      }
+
+      await this.embedItems(changed, site.vectorizeNamespace, now);
+      run.added = changed.filter((c) => !c.previous).length;
+      run.updated = changed.length - run.added;
+
+      // Whatever is left is no longer listed. A type whose sources returned nothing is more likely
+      // a failed fetch than a deleted catalog, and a type with a failed feed page or sitemap is
+      // missing whatever that page listed, so the pages of both are kept.
+      const fetchedTypes = new Set(items.map((item) => item.contentType));
+      const canDelete = (type: ContentType) => fetchedTypes.has(type) && !failedTypes.has(type);
+      const missing = [...existing.values()];
+      const removed = missing.filter((item) => canDelete(item.content_type));
+      run.skipped_deletions = [...new Set(missing.filter((item) => !canDelete(item.content_type)).map((item) => item.content_type))].join(',');
+      const removedVectorIds = removed.flatMap((item) => item.vector_ids);
+      for (let i = 0; i < removedVectorIds.length; i += 100) {
+        await this.index.deleteByIds(removedVectorIds.slice(i, i + 100));
+      }
+      for (const item of removed) {
+        await this.agent.sql`DELETE FROM content_inventory WHERE url = ${item.url};`;
+      }
+      run.deleted = removed.length;
+      run.status = 'completed';
+      console.log(
+        `✅ Content sync complete: ${run.fetched} fetched, ${run.added} added, ${run.updated} updated, ${run.unchanged} unchanged, ${run.deleted} deleted, ${run.rejected} rejected`
+      );
+    } catch (e: any) {
+      run.status = 'failed';
+      run.error = e.message || String(e);
+      console.error(`❌ Content sync failed:`, e);
+    }
+
+    run.finished_at = new Date().toISOString();
+    await this.agent.sql`
+      UPDATE content_sync_runs
+      SET status = ${run.status}, fetched = ${run.fetched}, added = ${run.added}, updated = ${run.updated}, unchanged = ${run.unchanged},
+          deleted = ${run.deleted}, skipped_deletions = ${run.skipped_deletions}, error = ${run.error}, finished_at = ${run.finished_at}
+      WHERE id = ${run.id};
+    `;
+    return run;
+  }
+
+  private async embedItems(changed: ChangedItem[], namespace: string | undefined, now: string) {
+    // Pages are embedded in batches so no request carries more than about 20 chunks
+    const batchSize = 20;
+    let batch: ChangedItem[] = [];
+    let batchChunks = 0;
+    for (const entry of changed) {
+      batch.push(entry);
+      batchChunks += entry.chunks.length;
+      if (batchChunks >= batchSize) {
+        await this.embedBatch(batch, namespace, now);
+        batch = [];
+        batchChunks = 0;
+      }
+    }
+    if (batch.length > 0) {
+      await this.embedBatch(batch, namespace, now);
+    }
+  }
 
-    const embeddingResponses = await Promise.all(
-        chunk.map(item => env.AI.run('@cf/baai/bge-base-en-v1.5', { text: [item.description] }))
-    );
+  private async embedBatch(batch: ChangedItem[], namespace: string | undefined, now: string) {
+    const embeddings = await this.llm.embed(batch.flatMap(({ chunks }) => chunks.map((chunk) => chunk.text)));
 
-    for (let j = 0; j < chunk.length; j++) {
-        const item = chunk[j];
-        const embedding = embeddingResponses[j].data[0];
-        
+    const vectors: VectorizeVector[] = [];
+    const vectorIdsByUrl = new Map<string, string[]>();
+    let e = 0;
+    for (const { item, chunks } of batch) {
+      const ids: string[] = [];
+      for (const chunk of chunks) {
+        const id = await vectorIdFor(item.url, chunk.index);
+        ids.push(id);
         vectors.push({
-          id: item.url,
-          values: embedding,
+          id,
+          values: embeddings[e++],
+          namespace,
           metadata: {
             url: item.url,
             title: item.title,
             primaryKeyword: item.primaryKeyword,
             pubDate: item.pubDate,
             contentType: item.contentType,
+            categories: item.categories,
+            chunkIndex: chunk.index,
+            section: chunk.heading,
+            anchorUrl: chunk.anchorUrl,
           },
         });
+      }
+      vectorIdsByUrl.set(item.url, ids);
+    }
+    for (let i = 0; i < vectors.length; i += 100) {
+      await this.index.upsert(vectors.slice(i, i + 100));
+    }
+
+    // Chunks a page no longer has, plus the URL-keyed vectors written before the inventory existed
+    const staleIds = batch.flatMap(({ item, previous }) => {
+      const current = new Set(vectorIdsByUrl.get(item.url));
+      return previous ? previous.vector_ids.filter((id) => !current.has(id)) : item.url.length <= 64 ? [item.url] : [];
+    });
+    if (staleIds.length > 0) {
+      await this.index.deleteByIds(staleIds);
     }
 
-    if (vectors.length > 0) {
-      await env.VECTORIZE_INDEX.upsert(vectors);
-      upsertedCount += vectors.length;
+    for (const { item, hash, previous } of batch) {
+      const vectorIds = JSON.stringify(vectorIdsByUrl.get(item.url));
+      await this.agent.sql`
+        INSERT INTO content_inventory (url, content_type, title, primary_keyword, content_hash, lastmod, vector_ids, first_seen_at, synced_at)
+        VALUES (${item.url}, ${item.contentType}, ${item.title}, ${item.primaryKeyword}, ${hash}, ${item.pubDate}, ${vectorIds}, ${previous?.first_seen_at ?? now}, ${now})
+        ON CONFLICT(url) DO UPDATE SET
+          content_type = excluded.content_type, title = excluded.title, primary_keyword = excluded.primary_keyword,
+          content_hash = excluded.content_hash, lastmod = excluded.lastmod, vector_ids = excluded.vector_ids, synced_at = excluded.synced_at;
+      `;
     }
   }
 
-  console.log(`Content sync completed. Upserted ${upsertedCount} items (${blogItems.length} blogs, ${productItems.length} products, ${collectionItems.length} collections).`);
-  return new Response(JSON.stringify({ 
-    success: true, 
-    upsertedCount,
-    breakdown: {
-      blogs: blogItems.length,
-      products: productItems.length,
-      collections: collectionItems.length
+  async listItems(contentType?: ContentType): Promise<InventoryItem[]> {
+    const rows = contentType
+      ? await this.agent.sql<InventoryRow>`SELECT * FROM content_inventory WHERE content_type = ${contentType} ORDER BY url;`
+      : await this.agent.sql<InventoryRow>`SELECT * FROM content_inventory ORDER BY url;`;
+    return rows.map((row) => ({ ...row, vector_ids: JSON.parse(row.vector_ids) }));
+  }
+
+  async getItem(url: string): Promise<InventoryItem | undefined> {
+    const rows = await this.agent.sql<InventoryRow>`SELECT * FROM content_inventory WHERE url = ${url};`;
+    return rows.length > 0 ? { ...rows[0], vector_ids: JSON.parse(rows[0].vector_ids) } : undefined;
+  }
+
+  /**
+   * Titles and primary keywords of the existing pages of a type, lowercased and deduplicated.
+   */
+  async getKeywords(contentType: ContentType = 'blog'): Promise<string[]> {
+    const rows = await this.agent.sql<{ title: string; primary_keyword: string | null }>`
+      SELECT title, primary_keyword FROM content_inventory WHERE content_type = ${contentType};
+    `;
+    return [...new Set(rows.flatMap((row) => [row.title, row.primary_keyword]).filter((k): k is string => !!k).map((k) => k.toLowerCase()))];
+  }
+
+  async countItems(): Promise<Record<ContentType, number>> {
+    const rows = await this.agent.sql<{ content_type: ContentType; count: number }>`
+      SELECT content_type, COUNT(*) as count FROM content_inventory GROUP BY content_type;
+    `;
+    const counts: Record<ContentType, number> = { blog: 0, product: 0, collection: 0 };
+    for (const row of rows) {
+      counts[row.content_type] = row.count;
     }
-  }), {
-    headers: { 'Content-Type': 'application/json' },
-  });
-}
\ No newline at end of file
+    return counts;
+  }
+
+  async getRuns(limit: number = 20): Promise<SyncRun[]> {
+    return this.agent.sql<SyncRun>`
+      SELECT r.*, (SELECT COUNT(*) FROM content_sync_rejections x WHERE x.run_id = r.id) AS rejected
+      FROM content_sync_runs r
+      ORDER BY r.started_at DESC
+      LIMIT ${limit};
+    `;
+  }
+
+  /**
+   * Feed items and pages a sync run couldn't use, for the latest run unless one is given.
+   */
+  async getRejections(runId?: string): Promise<SyncRejection[]> {
+    const rows = runId
+      ? await this.agent.sql<SyncRejectionRow>`SELECT * FROM content_sync_rejections WHERE run_id = ${runId};`
+      : await this.agent.sql<SyncRejectionRow>`
+          SELECT * FROM content_sync_rejections
+          WHERE run_id = (SELECT id FROM content_sync_runs ORDER BY started_at DESC LIMIT 1);
+        `;
+    return rows.map((row) => ({ ...row, errors: JSON.parse(row.errors) }));
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Parses CSV text as described by RFC 4180: quoted fields may contain commas, line breaks and
+ * doubled quotes, and records end with CRLF or LF. Blank lines and lines starting with "#" outside
+ * quotes are skipped, so files from /generate-keywords with their section comments read as-is.
+ */
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  // Whether anything has been read for the current record, to tell a blank line from an empty field
+  let started = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRecord = () => {
+    if (started) {
+      record.push(field);
+      records.push(record);
+    }
+    record = [];
+    field = '';
+    started = false;
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i += 2;
+          continue;
+        }
+        quoted = false;
+      } else {
+        field += char;
+      }
+      i++;
+      continue;
+    }
+
+    if (!started && char === '#') {
+      const end = text.indexOf('\n', i);
+      i = end < 0 ? text.length : end + 1;
+      continue;
+    }
+    if (char === '\r' || char === '\n') {
+      endRecord();
+      i += char === '\r' && text[i + 1] === '\n' ? 2 : 1;
+      continue;
+    }
+
+    started = true;
+    if (char === '"' && field.trim() === '') {
+      field = '';
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+    i++;
+  }
+  endRecord();
+
+  return records;
+}
+
+/**
+ * Parses CSV with a header row into objects keyed by the lowercased, trimmed header names.
+ */
+export function parseCsvObjects(text: string): Array<Record<string, string>> {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const names = header.map((name) => name.trim().toLowerCase());
+  return rows.map((row) => Object.fromEntries(names.map((name, i) => [name, row[i] ?? ''])));
+}
+
+function escapeField(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) || text.startsWith('#') || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serializes rows to CSV with a header row and CRLF line endings, quoting fields only where needed.
+ */
+export function toCsv(columns: string[], rows: Array<Record<string, unknown>>): string {
+  const lines = [columns.map(escapeField).join(','), ...rows.map((row) => columns.map((column) => escapeField(row[column])).join(','))];
+  return `${lines.join('\r\n')}\r\n`;
+}
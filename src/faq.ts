@@ -0,0 +1,91 @@
+import { z } from 'zod';
+import type { AuthorPersona } from './personas';
+import type { ModelRouter } from './llm';
+
+export type FaqMode = boolean | 'auto';
+
+// Zod schema for the FAQ returned by the writing model
+export const faqSchema = z.object({
+  questions: z
+    .array(
+      z.object({
+        question: z.string().trim().min(10).max(200),
+        answer: z.string().trim().min(20).max(600),
+      })
+    )
+    .min(4)
+    .max(8),
+});
+
+export type FaqItem = z.infer<typeof faqSchema>['questions'][number];
+
+// Searches with these intents aren't looking for answers, so "auto" leaves the FAQ out
+const NON_QUESTION_INTENTS = ['transactional', 'navigational'];
+
+const QUESTION_WORDS = /^(how|what|why|when|where|which|who|can|does|do|is|are|should)\b/i;
+
+/**
+ * Decides whether a post gets an FAQ. "auto" adds one unless the keyword's intent is transactional
+ * or navigational, though a keyword phrased as a question always gets one.
+ */
+export function shouldIncludeFaq(mode: FaqMode, keyword: string, intent?: string): boolean {
+  if (mode !== 'auto') {
+    return mode;
+  }
+  if (QUESTION_WORDS.test(keyword.trim())) {
+    return true;
+  }
+  const normalized = intent?.toLowerCase() ?? '';
+  return !NON_QUESTION_INTENTS.some((skip) => normalized.includes(skip));
+}
+
+/**
+ * Derives 4-8 questions readers ask about the keyword from the research and answers them in the persona's voice.
+ * @throws ZodError when the model doesn't return a valid FAQ.
+ */
+export async function generateFaq(
+  llm: ModelRouter,
+  keyword: string,
+  researchData: any,
+  persona: AuthorPersona,
+  intent?: string
+): Promise<FaqItem[]> {
+  const prompt = `You are ${persona.name}. Write the FAQ section for a blog post targeting the keyword "${keyword}"${intent ? ` (search intent: ${intent})` : ''}.
+
+Pick 4-8 questions people actually ask about this topic, the kind that appear under "People Also Ask" in search results. Base them on the research below and on what a searcher with this intent still wants to know.
+
+Answer each question in 2-3 sentences (40-80 words), directly and in the first sentence, in this voice: ${persona.writing_voice}
+Answers are plain text with no HTML, markdown or links. Don't repeat the question in the answer.
+
+<research>
+${JSON.stringify(researchData?.research_content ?? '')}
+</research>
+
+Return JSON: {"questions": [{"question": "...", "answer": "..."}]}`;
+
+  const response = await llm.chatJSON('writing', [{ role: 'user', content: prompt }], { temperature: 0.5 });
+  return faqSchema.parse(response).questions;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Renders the FAQ as a styled section appended to the end of the article.
+ */
+export function renderFaqSection(items: FaqItem[]): string {
+  const entries = items
+    .map(
+      (item) => `  <div class="faq-item" style="border-bottom: 1px solid #e5e7eb; padding: 1rem 0;">
+    <h3 style="margin: 0 0 0.5rem; font-size: 1.1rem;">${escapeHtml(item.question)}</h3>
+    <p style="margin: 0;">${escapeHtml(item.answer)}</p>
+  </div>`
+    )
+    .join('\n');
+
+  return `<section class="faq" style="margin: 2.5rem 0; padding: 1.5rem; background-color: #f9fafb; border-radius: 8px;">
+  <h2 style="margin-top: 0;">Frequently Asked Questions</h2>
+${entries}
+</section>`;
+}
@@ -0,0 +1,278 @@
+import { z } from 'zod';
+import { childElement, childElements, childText, decodeHtmlEntities, parseXml, type XmlElement } from './xml';
+
+// Stops runaway pagination of feeds whose next links loop or never end
+const MAX_FEED_PAGES = 50;
+
+// Zod schema for feed items, RSS and Atom entries are both mapped onto it
+export const feedItemSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  link: z.string().url(),
+  // HTML content of the item, the full content when the feed carries it, otherwise the summary
+  description: z.string().min(1),
+  pubDate: z.string(),
+  h1: z.string().optional(),
+  categories: z.array(z.string()).default([]),
+  author: z.string().optional(),
+  images: z.array(z.string().url()).default([]),
+});
+
+export type FeedItem = z.infer<typeof feedItemSchema>;
+
+// An item or feed page that couldn't be used, with the reasons
+export type FeedRejection = {
+  feed: string;
+  id?: string;
+  link?: string;
+  title?: string;
+  errors: string[];
+};
+
+export type ParsedFeed = {
+  kind: 'rss' | 'atom' | 'unknown';
+  title?: string;
+  // Raw items, not yet validated
+  items: Array<Partial<FeedItem>>;
+  // Next page of a paged feed (RFC 5005)
+  next?: string;
+};
+
+function resolveUrl(href: string | undefined, base: string): string | undefined {
+  if (!href) return undefined;
+  try {
+    return new URL(href.trim(), base).toString();
+  } catch {
+    return href.trim();
+  }
+}
+
+/**
+ * Plain text of a title or name that may contain markup and double-encoded entities.
+ */
+function plainText(text: string | undefined): string | undefined {
+  if (!text) return undefined;
+  const plain = decodeHtmlEntities(text.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+  return plain || undefined;
+}
+
+/**
+ * Feeds use RFC 822 dates (RSS) or RFC 3339 dates (Atom), both are normalised to ISO 8601.
+ */
+function normalizeDate(text: string | undefined): string | undefined {
+  if (!text) return undefined;
+  const time = Date.parse(text.trim());
+  return Number.isNaN(time) ? text.trim() : new Date(time).toISOString();
+}
+
+function extractH1(html: string): string | undefined {
+  return plainText(html.match(/<h1[^>]*>([\s\S]*?)<\/h1>/i)?.[1]);
+}
+
+function isImage(element: XmlElement): boolean {
+  const { medium, type, url } = element.attributes;
+  if (medium) return medium === 'image';
+  if (type) return type.startsWith('image/');
+  return /\.(?:jpe?g|png|gif|webp|avif)(?:\?|$)/i.test(url ?? '');
+}
+
+/**
+ * Images of an item from Media RSS, enclosures and the <img> tags in its content, in that order.
+ */
+function extractImages(item: XmlElement, html: string, base: string): string[] {
+  const candidates: Array<string | undefined> = [];
+  const media = [...item.children, ...childElements(item, 'group').flatMap((group) => group.children)];
+  for (const element of media) {
+    if ((element.name === 'content' || element.name === 'enclosure') && element.attributes.url && isImage(element)) {
+      candidates.push(element.attributes.url);
+    } else if (element.name === 'thumbnail' && element.attributes.url) {
+      candidates.push(element.attributes.url);
+    } else if (element.name === 'link' && element.attributes.rel === 'enclosure' && element.attributes.type?.startsWith('image/')) {
+      candidates.push(element.attributes.href);
+    } else if (element.name === 'image' && element.attributes.href) {
+      candidates.push(element.attributes.href);
+    }
+  }
+  for (const match of html.matchAll(/<img\b[^>]*?\ssrc\s*=\s*(["'])(.*?)\1/gi)) {
+    candidates.push(decodeHtmlEntities(match[2]));
+  }
+  const images = candidates.map((src) => resolveUrl(src, base)).filter((src): src is string => !!src && /^https?:/.test(src));
+  return [...new Set(images)];
+}
+
+function uniqueStrings(values: Array<string | undefined>): string[] {
+  return [...new Set(values.filter((value): value is string => !!value))];
+}
+
+function parseRssItem(item: XmlElement, base: string): Partial<FeedItem> {
+  const guid = childElement(item, 'guid');
+  const guidText = guid?.text.trim();
+  const guidIsLink = guidText && guid?.attributes.ispermalink !== 'false' && /^https?:/.test(guidText);
+  // RSS 2.0 uses <description>, most platforms put the full post in <content:encoded>
+  const description = (childText(item, 'encoded') ?? childText(item, 'description') ?? '').trim();
+  const title = plainText(childText(item, 'title'));
+  // Skips atom:link elements, which have no text
+  const link = childElements(item, 'link')
+    .map((element) => element.text.trim())
+    .find(Boolean);
+
+  return {
+    id: guidText || link,
+    title,
+    link: resolveUrl(link ?? (guidIsLink ? guidText : undefined), base),
+    description,
+    pubDate: normalizeDate(childText(item, 'pubdate') ?? childText(item, 'date')),
+    h1: extractH1(description) ?? title,
+    categories: uniqueStrings(childElements(item, 'category').map((category) => plainText(category.text))),
+    author: plainText(childText(item, 'creator') ?? childText(item, 'author')),
+    images: extractImages(item, description, base),
+  };
+}
+
+/**
+ * Content of an Atom text construct as HTML, according to its type attribute.
+ */
+function atomHtml(element: XmlElement | undefined, xml: string): string {
+  if (!element) return '';
+  const type = element.attributes.type ?? 'text';
+  if (type === 'xhtml') {
+    const inner = xml.substring(element.innerStart, element.innerEnd);
+    // The content is wrapped in an xhtml:div that isn't part of it
+    return inner.replace(/^\s*<(?:\w+:)?div\b[^>]*>([\s\S]*)<\/(?:\w+:)?div>\s*$/i, '$1').replace(/<(\/?)\w+:/g, '<$1').trim();
+  }
+  if (type === 'html' || type === 'text/html') {
+    return element.text.trim();
+  }
+  return element.text.trim().replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function atomLink(element: XmlElement, rel: string): string | undefined {
+  return childElements(element, 'link').find((link) => (link.attributes.rel ?? 'alternate') === rel)?.attributes.href;
+}
+
+function parseAtomEntry(entry: XmlElement, xml: string, base: string): Partial<FeedItem> {
+  const description = atomHtml(childElement(entry, 'content'), xml) || atomHtml(childElement(entry, 'summary'), xml);
+  const title = plainText(atomHtml(childElement(entry, 'title'), xml));
+
+  return {
+    id: childText(entry, 'id'),
+    title,
+    link: resolveUrl(atomLink(entry, 'alternate'), base),
+    description,
+    pubDate: normalizeDate(childText(entry, 'published') ?? childText(entry, 'updated')),
+    h1: extractH1(description) ?? title,
+    categories: uniqueStrings(childElements(entry, 'category').map((category) => plainText(category.attributes.label ?? category.attributes.term))),
+    author: uniqueStrings(childElements(entry, 'author').map((author) => plainText(childText(author, 'name')))).join(', ') || undefined,
+    images: extractImages(entry, description, base),
+  };
+}
+
+/**
+ * Parses an RSS 2.0, RSS 1.0 or Atom feed. Relative links are resolved against the feed's URL.
+ */
+export function parseFeedXml(xml: string, feedUrl: string): ParsedFeed {
+  const document = parseXml(xml);
+  const top = document.children.find((child) => child.name === 'rss' || child.name === 'rdf' || child.name === 'feed');
+
+  if (top?.name === 'feed') {
+    return {
+      kind: 'atom',
+      title: plainText(childText(top, 'title')),
+      items: childElements(top, 'entry').map((entry) => parseAtomEntry(entry, xml, feedUrl)),
+      next: resolveUrl(atomLink(top, 'next'), feedUrl),
+    };
+  }
+
+  if (top) {
+    const channel = childElement(top, 'channel') ?? top;
+    // RSS 1.0 puts its items next to the channel rather than inside it
+    const items = [...childElements(channel, 'item'), ...(channel === top ? [] : childElements(top, 'item'))];
+    return {
+      kind: 'rss',
+      title: plainText(childText(channel, 'title')),
+      items: items.map((item) => parseRssItem(item, feedUrl)),
+      next: resolveUrl(atomLink(channel, 'next'), feedUrl),
+    };
+  }
+
+  return { kind: 'unknown', items: [] };
+}
+
+/**
+ * Validates parsed items, separating the usable ones from those that fail the schema.
+ */
+export function validateFeedItems(feed: string, items: Array<Partial<FeedItem>>): { items: FeedItem[]; rejected: FeedRejection[] } {
+  const valid: FeedItem[] = [];
+  const rejected: FeedRejection[] = [];
+  for (const item of items) {
+    const result = feedItemSchema.safeParse({ ...item, pubDate: item.pubDate ?? new Date().toISOString() });
+    if (result.success) {
+      valid.push(result.data);
+    } else {
+      rejected.push({
+        feed,
+        id: item.id,
+        link: item.link,
+        title: item.title,
+        errors: result.error.issues.map((issue) => `${issue.path.join('.') || 'item'}: ${issue.message}`),
+      });
+    }
+  }
+  return { items: valid, rejected };
+}
+
+/**
+ * Fetches feeds and follows their next-page links. Feeds that fail to load and items that fail
+ * validation are reported as rejections rather than dropped silently. Pages that failed to load
+ * are also listed in `failed`, since the items they held are missing from the result.
+ */
+export async function fetchFeeds(urls: string[]): Promise<{ items: FeedItem[]; rejected: FeedRejection[]; pages: string[]; failed: string[] }> {
+  const visited = new Set<string>();
+  const items: FeedItem[] = [];
+  const rejected: FeedRejection[] = [];
+  const failed: string[] = [];
+
+  for (const url of urls) {
+    let next: string | undefined = url;
+    let pages = 0;
+    while (next && !visited.has(next)) {
+      if (pages++ >= MAX_FEED_PAGES) {
+        console.warn(`Stopped paging ${url} after ${MAX_FEED_PAGES} pages`);
+        break;
+      }
+      const page: string = next;
+      visited.add(page);
+      next = undefined;
+
+      try {
+        const response = await fetch(page);
+        if (!response.ok) {
+          console.error(`Failed to fetch feed: ${page} - Status: ${response.status}`);
+          rejected.push({ feed: page, errors: [`Feed returned HTTP ${response.status}`] });
+          failed.push(page);
+          continue;
+        }
+        const parsed = parseFeedXml(await response.text(), page);
+        if (parsed.kind === 'unknown') {
+          console.warn(`${page} is not an RSS or Atom feed, skipping it`);
+          rejected.push({ feed: page, errors: ['Not an RSS or Atom feed'] });
+          failed.push(page);
+          continue;
+        }
+        const result = validateFeedItems(page, parsed.items);
+        items.push(...result.items);
+        rejected.push(...result.rejected);
+        next = parsed.next;
+      } catch (error: any) {
+        console.error(`Error reading feed ${page}:`, error);
+        rejected.push({ feed: page, errors: [error.message || String(error)] });
+        failed.push(page);
+      }
+    }
+  }
+
+  if (rejected.length > 0) {
+    console.warn(`⚠️ ${rejected.length} feed items or pages were rejected`);
+  }
+  return { items, rejected, pages: [...visited], failed };
+}
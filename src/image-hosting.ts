@@ -0,0 +1,33 @@
+export type ImageType = {
+  mimeType: string;
+  extension: string;
+};
+
+/**
+ * Detects the format of generated image bytes from their signature, defaulting to PNG.
+ */
+export function detectImageType(data: ArrayBuffer): ImageType {
+  const bytes = new Uint8Array(data.slice(0, 12));
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return { mimeType: 'image/jpeg', extension: 'jpg' };
+  }
+  const ascii = String.fromCharCode(...bytes);
+  if (ascii.startsWith('RIFF') && ascii.slice(8, 12) === 'WEBP') {
+    return { mimeType: 'image/webp', extension: 'webp' };
+  }
+  if (ascii.startsWith('GIF8')) {
+    return { mimeType: 'image/gif', extension: 'gif' };
+  }
+  return { mimeType: 'image/png', extension: 'png' };
+}
+
+/**
+ * Stores an image in an R2 bucket served from a public base URL, used when Shopify Files is unavailable.
+ * @returns The public URL of the stored image.
+ */
+export async function storeImageInR2(bucket: R2Bucket, publicBaseUrl: string, key: string, data: ArrayBuffer, mimeType: string): Promise<string> {
+  await bucket.put(key, data, {
+    httpMetadata: { contentType: mimeType, cacheControl: 'public, max-age=31536000, immutable' },
+  });
+  return `${publicBaseUrl.replace(/\/+$/, '')}/${key}`;
+}
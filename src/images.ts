@@ -0,0 +1,205 @@
+// Brand style presets appended to every image prompt, with the palette used by the placeholder renderer
+export const IMAGE_STYLE_PRESETS = {
+  editorial: {
+    prompt: 'Editorial lifestyle photography, natural light, shallow depth of field, authentic and candid, muted film tones.',
+    palette: ['#1e3a8a', '#6d28d9'],
+  },
+  minimal: {
+    prompt: 'Minimal flat illustration, generous negative space, simple geometric shapes, soft pastel palette.',
+    palette: ['#e0e7ff', '#fce7f3'],
+  },
+  vibrant: {
+    prompt: 'Bold, colorful digital illustration, high contrast, energetic composition, saturated colors.',
+    palette: ['#f97316', '#db2777'],
+  },
+  luxury: {
+    prompt: 'Premium product photography, dark moody background, dramatic rim lighting, glass and gold accents.',
+    palette: ['#0f172a', '#a16207'],
+  },
+} as const;
+
+export type ImageStyle = keyof typeof IMAGE_STYLE_PRESETS;
+
+export const IMAGE_STYLES = Object.keys(IMAGE_STYLE_PRESETS) as [ImageStyle, ...ImageStyle[]];
+
+// Attribute the writer puts on <img> tags that still need an image
+export const IMAGE_PROMPT_ATTRIBUTE = 'data-image-prompt';
+
+const PLACEHOLDER_IMAGE_REGEX = new RegExp(`<img\\b[^>]*\\b${IMAGE_PROMPT_ATTRIBUTE}\\s*=\\s*(["'])([\\s\\S]*?)\\1[^>]*>`, 'gi');
+
+export type LibraryImage = {
+  url: string;
+  alt: string;
+  keywords: string[];
+};
+
+/**
+ * Combines the subject of an image with the site's style preset and brand notes.
+ * Image models render text poorly, so the prompt always asks for none.
+ */
+export function buildImagePrompt(subject: string, style: ImageStyle, brandNotes?: string): string {
+  return [subject, IMAGE_STYLE_PRESETS[style].prompt, brandNotes, 'No text, letters, words, logos or watermarks in the image.']
+    .filter(Boolean)
+    .join(' ');
+}
+
+/**
+ * Parses a "WIDTHxHEIGHT" size, falling back to 1200x630.
+ */
+export function parseImageSize(size?: string): { width: number; height: number } {
+  const match = size?.match(/^(\d+)x(\d+)$/);
+  return match ? { width: Number(match[1]), height: Number(match[2]) } : { width: 1200, height: 630 };
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  const typeAndData = chunk.subarray(4, 8 + data.length);
+  typeAndData.set([...type].map((c) => c.charCodeAt(0)));
+  typeAndData.set(data, 4);
+  view.setUint32(8 + data.length, crc32(typeAndData));
+  return chunk;
+}
+
+function hexToRgb(hex: string): [number, number, number] {
+  const value = Number.parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+/**
+ * Renders a diagonal gradient PNG locally, used as the offline image provider.
+ */
+export async function renderPlaceholderPng(width: number, height: number, palette: readonly string[] = ['#1e3a8a', '#6d28d9']): Promise<ArrayBuffer> {
+  const from = hexToRgb(palette[0]);
+  const to = hexToRgb(palette[palette.length - 1]);
+
+  // Each scanline starts with filter type 0 followed by RGB pixels
+  const raw = new Uint8Array(height * (width * 3 + 1));
+  for (let y = 0; y < height; y++) {
+    const row = y * (width * 3 + 1);
+    for (let x = 0; x < width; x++) {
+      const t = (x / width + y / height) / 2;
+      const offset = row + 1 + x * 3;
+      raw[offset] = Math.round(from[0] + (to[0] - from[0]) * t);
+      raw[offset + 1] = Math.round(from[1] + (to[1] - from[1]) * t);
+      raw[offset + 2] = Math.round(from[2] + (to[2] - from[2]) * t);
+    }
+  }
+
+  // CompressionStream's "deflate" format is the zlib stream PNG expects
+  const compressed = new Uint8Array(await new Response(new Blob([raw]).stream().pipeThrough(new CompressionStream('deflate'))).arrayBuffer());
+
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header.set([8, 2, 0, 0, 0], 8); // 8-bit RGB, no interlace
+
+  const parts = [
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', compressed),
+    pngChunk('IEND', new Uint8Array()),
+  ];
+  return new Blob(parts).arrayBuffer();
+}
+
+/**
+ * Finds a library image whose keywords appear in the prompt, preferring the most matches.
+ */
+export function matchLibraryImage(prompt: string, library: LibraryImage[]): LibraryImage | undefined {
+  const text = prompt.toLowerCase();
+  let best: { image: LibraryImage; matches: number } | undefined;
+  for (const image of library) {
+    const matches = image.keywords.filter((keyword) => text.includes(keyword.toLowerCase())).length;
+    if (matches > 0 && (!best || matches > best.matches)) {
+      best = { image, matches };
+    }
+  }
+  return best?.image;
+}
+
+function readAttribute(tag: string, name: string): string | undefined {
+  return tag.match(new RegExp(`\\b${name}\\s*=\\s*(["'])([\\s\\S]*?)\\1`, 'i'))?.[2];
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+export type BodyImageResult = {
+  html: string;
+  resolved: number;
+  removed: number;
+};
+
+/**
+ * Replaces every placeholder <img data-image-prompt="..."> in the article with a hosted image.
+ * Placeholders beyond the limit, and any the resolver can't produce an image for, are removed
+ * so the article never ships a broken image.
+ */
+export async function resolveBodyImages(
+  html: string,
+  maxImages: number,
+  resolve: (prompt: string, alt: string, index: number) => Promise<string | undefined>
+): Promise<BodyImageResult> {
+  const placeholders = [...html.matchAll(PLACEHOLDER_IMAGE_REGEX)];
+  const replacements: string[] = [];
+  let resolved = 0;
+
+  for (let i = 0; i < placeholders.length; i++) {
+    const tag = placeholders[i][0];
+    const prompt = placeholders[i][2].trim();
+    const alt = readAttribute(tag, 'alt') || prompt;
+
+    let url: string | undefined;
+    if (i < maxImages && prompt) {
+      try {
+        url = await resolve(prompt, alt, i);
+      } catch (e: any) {
+        console.warn(`⚠️ Body image ${i + 1} failed, removing it: ${e.message}`);
+      }
+    }
+
+    if (url) {
+      resolved++;
+      replacements.push(
+        `<img src="${escapeAttribute(url)}" alt="${escapeAttribute(alt)}" loading="lazy" style="width: 100%; max-width: 800px; height: auto; margin: 20px 0; border-radius: 8px;">`
+      );
+    } else {
+      replacements.push('');
+    }
+  }
+
+  let index = 0;
+  const output = html
+    .replace(PLACEHOLDER_IMAGE_REGEX, () => replacements[index++] ?? '')
+    // Drop wrappers left empty by removed images
+    .replace(/<(p|figure)>\s*(?:<figcaption>[\s\S]*?<\/figcaption>)?\s*<\/\1>/gi, '');
+
+  return { html: output, resolved, removed: placeholders.length - resolved };
+}
+
+/**
+ * Removes placeholders that were never resolved, e.g. when the image stage was skipped.
+ */
+export function stripUnresolvedImages(html: string): string {
+  return html.replace(PLACEHOLDER_IMAGE_REGEX, '').replace(/<(p|figure)>\s*<\/\1>/gi, '');
+}
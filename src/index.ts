@@ -1,14 +1,32 @@
 import { Agent, AgentNamespace, getAgentByName } from 'agents';
-import { OpenAI } from 'openai';
 
 // Import all component classes
-import { ShopifyClient } from './shopify';
-import { PersonaManager, AuthorPersona } from './personas';
+import { ShopifyClient, seoMetafields, type ShopifyArticle, type ShopifyProduct } from './shopify';
+import { PersonaManager, type AuthorPersona, DEFAULT_PERSONA_ID, DEFAULT_PERSONA_SEED, personaGenerateSchema, personaInputSchema, personaUpdateSchema, type PersonaSelection } from './personas';
 import { WebResearcher } from './researcher';
-import { KeywordManager, Keyword } from './keywords';
+import { KeywordManager, Keyword, KEYWORD_EXPORT_COLUMNS, keywordKey } from './keywords';
 import { ProductIntegrator } from './integrator';
-import { syncPosts } from './content-sync';
-import { fetchAllSiteUrls } from './sitemap';
+import { AutopilotConfigError, AutopilotManager } from './autopilot';
+import { JobManager, JOB_STAGES, jobParamsSchema, type Job, type JobStage } from './jobs';
+import { ModelRouter } from './llm';
+import { type ArticleContent, generateValidArticle } from './article';
+import { type InternalLink, aggregateChunkMatches, auditLinks } from './link-audit';
+import { sanitizeArticleHtml } from './sanitizer';
+import type { ProductCardTemplate } from './product-cards';
+import { renderStructuredData } from './structured-data';
+import { analyzeContent, qualityMetafield, scoreContent, type QualityCheck, type QualityReport } from './quality';
+import { CannibalizationError, checkCannibalization, type CannibalizationResult } from './cannibalization';
+import { generateFaq, renderFaqSection, shouldIncludeFaq } from './faq';
+import { ProductCatalog } from './product-catalog';
+import { detectImageType, storeImageInR2 } from './image-hosting';
+import { IMAGE_STYLE_PRESETS, buildImagePrompt, matchLibraryImage, resolveBodyImages, stripUnresolvedImages } from './images';
+import { SiteConfigManager, DEFAULT_SITE_ID, legacySiteConfig, mergeSiteConfig, siteConfigSchema, type SiteConfig } from './site-config';
+import { ContentInventory } from './content-sync';
+import { LinkBackfill, type BackfillStatus } from './backfill';
+import { LinkGraph, favorUnderlinked } from './link-graph';
+import { TopicalMapManager, clusterLinks, ensurePillarLink } from './topical-map';
+import { BatchManager, EmptyBatchError, batchRequestSchema, type Batch, type BatchItem, type BatchStatus } from './batches';
+import { parseCsvObjects, toCsv } from './csv';
 
 
 // --- Type Definitions ---
@@ -19,13 +37,18 @@ interface Env {
   SHOPIFY_ACCESS_TOKEN: string;
   SHOPIFY_SHOP_URL: string;
   API_KEY: string; // Secret for securing the worker
+  DEFAULT_SITE_ID?: string; // Site used when a request doesn't name one
   VECTORIZE_INDEX: VectorizeIndex;
   BROWSER: Fetcher;
   AI: any;
+  IMAGES_BUCKET?: R2Bucket; // Optional fallback host for featured images
 }
 
 interface AgentState {
   personas: AuthorPersona[];
+  defaultPersonaId: string | null;
+  personaSelection: PersonaSelection;
+  personaRotationIndex: number;
 }
 
 // --- Agent Class ---
@@ -33,32 +56,74 @@ interface AgentState {
 export class ShopifyAutobloggerAgent extends Agent<Env, AgentState> {
     initialState: AgentState = {
         personas: [],
+        defaultPersonaId: null,
+        personaSelection: 'default',
+        personaRotationIndex: 0,
     };
 
     // Component instances
-    private openai: OpenAI;
-    private shopify: ShopifyClient;
+    private llm: ModelRouter;
+    private shopify!: ShopifyClient;
     private researcher: WebResearcher;
     private personaManager!: PersonaManager;
     private keywordManager!: KeywordManager;
-    private productIntegrator: ProductIntegrator;
+    private productIntegrator!: ProductIntegrator;
+    private productCatalog!: ProductCatalog;
+    private contentInventory!: ContentInventory;
+    private linkBackfill!: LinkBackfill;
+    private linkGraph!: LinkGraph;
+    private topicalMap!: TopicalMapManager;
+    private autopilot!: AutopilotManager;
+    private jobManager!: JobManager;
+    private batchManager!: BatchManager;
+    private siteConfigManager!: SiteConfigManager;
+    private siteConfig?: SiteConfig;
 
     constructor(ctx: any, env: Env) {
         super(ctx, env);
-        this.openai = new OpenAI({ apiKey: env.OPENAI_API_KEY });
-        this.shopify = new ShopifyClient(env.SHOPIFY_ACCESS_TOKEN, env.SHOPIFY_SHOP_URL);
-        this.researcher = new WebResearcher(this.openai);
-        this.productIntegrator = new ProductIntegrator(this.shopify, this.openai);
+        this.llm = new ModelRouter(env as unknown as Record<string, any>);
+        this.researcher = new WebResearcher(this.llm);
     }
 
     async onStart() {
-        this.personaManager = new PersonaManager(this.openai, this.state.personas);
-        this.keywordManager = new KeywordManager(this.openai, this);
+        this.productCatalog = new ProductCatalog(this, this.llm, this.env.VECTORIZE_INDEX);
+        await this.productCatalog.initSchema();
+        this.contentInventory = new ContentInventory(this, this.llm, this.env.VECTORIZE_INDEX);
+        await this.contentInventory.initSchema();
+        this.linkBackfill = new LinkBackfill(this, this.llm, this.env.VECTORIZE_INDEX);
+        await this.linkBackfill.initSchema();
+        this.linkGraph = new LinkGraph(this);
+        await this.linkGraph.initSchema();
+        this.siteConfigManager = new SiteConfigManager(this);
+        await this.siteConfigManager.initSchema();
+        const storedConfig = await this.siteConfigManager.getConfig();
+        if (storedConfig) {
+            this.applySiteConfig(storedConfig);
+        } else if (this.name === (this.env.DEFAULT_SITE_ID || DEFAULT_SITE_ID)) {
+            this.applySiteConfig(legacySiteConfig(this.env.SHOPIFY_SHOP_URL));
+        }
+
+        this.personaManager = new PersonaManager(this.llm, this.state.personas);
+        if (this.personaManager.getPersonas().length === 0) {
+            this.personaManager.addPersona(DEFAULT_PERSONA_SEED, DEFAULT_PERSONA_ID);
+            this.savePersonas({ defaultPersonaId: DEFAULT_PERSONA_ID });
+        }
+        this.keywordManager = new KeywordManager(this.llm, this);
         await this.keywordManager.initSchema();
+        this.topicalMap = new TopicalMapManager(this, this.llm);
+        await this.topicalMap.initSchema();
+        this.jobManager = new JobManager(this);
+        await this.jobManager.initSchema();
+        this.batchManager = new BatchManager(this, this.jobManager, this.keywordManager);
+        await this.batchManager.initSchema();
+        this.ctx.waitUntil(this.recoverJobs());
+        this.autopilot = new AutopilotManager(this, this.keywordManager);
+        await this.autopilot.initSchema();
+        await this.autopilot.ensureScheduled();
     }
 
     onStateUpdate(state: AgentState) {
-        this.personaManager = new PersonaManager(this.openai, state.personas);
+        this.personaManager = new PersonaManager(this.llm, state.personas);
     }
     
     onError(error: any) {
@@ -67,25 +132,187 @@ export class ShopifyAutobloggerAgent extends Agent<Env, AgentState> {
         throw new Error(error.stack || error.message || 'An unknown error occurred in the agent.');
     }
 
+    /**
+     * Points the Shopify client and site-dependent components at a site's configuration.
+     */
+    private applySiteConfig(config: SiteConfig) {
+        const accessToken = (this.env as unknown as Record<string, string | undefined>)[config.shopify.accessTokenSecret];
+        if (!accessToken) {
+            console.warn(`⚠️ Secret ${config.shopify.accessTokenSecret} is not set for site ${this.name}`);
+        }
+        this.siteConfig = config;
+        this.llm.setModels(config.models);
+        this.shopify = new ShopifyClient(accessToken || '', config.shopify.shopUrl, { apiVersion: config.shopify.apiVersion });
+        this.productCatalog.useSite(this.shopify, config.vectorizeNamespace);
+        this.linkBackfill.useSite(this.shopify, config);
+        this.productIntegrator = new ProductIntegrator(this.productCatalog, this.llm, config.domain);
+    }
+
+    private get site(): SiteConfig {
+        if (!this.siteConfig) {
+            throw new Error(`Site "${this.name}" is not configured. PUT /site with its configuration first.`);
+        }
+        return this.siteConfig;
+    }
+
     async onRequest(request: Request): Promise<Response> {
         const url = new URL(request.url);
-        console.log(`Agent received request: ${request.method} ${url.pathname}`);
+        console.log(`Agent received request for site ${this.name}: ${request.method} ${url.pathname}`);
 
         try {
             // Router for agent methods
             const path = url.pathname;
 
+            if (path === '/site' && request.method === 'GET') {
+                if (!this.siteConfig) {
+                    return new Response(`Site "${this.name}" is not configured`, { status: 404 });
+                }
+                // GraphQL cost spent since the Shopify client was last created, i.e. since the agent started or the site was reconfigured
+                const graphqlCost = this.shopify.getGraphQLCostStats();
+                return new Response(JSON.stringify({ siteId: this.name, ...this.siteConfig, graphqlCost }), { headers: { 'Content-Type': 'application/json' } });
+            }
+
+            if (path === '/site' && request.method === 'PUT') {
+                const parsed = siteConfigSchema.safeParse(mergeSiteConfig(this.siteConfig, await request.json()));
+                if (!parsed.success) {
+                    return new Response(JSON.stringify({ error: 'Invalid site configuration', issues: parsed.error.issues }), {
+                        status: 400,
+                        headers: { 'Content-Type': 'application/json' },
+                    });
+                }
+                const config = await this.siteConfigManager.saveConfig(parsed.data);
+                this.applySiteConfig(config);
+                return new Response(JSON.stringify({ siteId: this.name, ...config }), { headers: { 'Content-Type': 'application/json' } });
+            }
+
+            if (!this.siteConfig) {
+                return new Response(`Site "${this.name}" is not configured. PUT /site with its configuration first.`, { status: 409 });
+            }
+
+            if (path === '/models' && request.method === 'GET') {
+                return new Response(JSON.stringify(this.llm.getModels()), { headers: { 'Content-Type': 'application/json' } });
+            }
+
+            if (path === '/sync-posts' && request.method === 'POST') {
+                // Run the sync in the background
+                this.ctx.waitUntil(this.contentInventory.sync(this.site));
+                return new Response(JSON.stringify({ success: true, message: 'Content sync process started in the background.', runsUrl: '/content/sync-runs' }), {
+                    headers: { 'Content-Type': 'application/json' },
+                });
+            }
+
+            if (path === '/content' && request.method === 'GET') {
+                const type = url.searchParams.get('type');
+                const items = await this.contentInventory.listItems(type === 'blog' || type === 'product' || type === 'collection' ? type : undefined);
+                return new Response(JSON.stringify({ counts: await this.contentInventory.countItems(), items }), { headers: { 'Content-Type': 'application/json' } });
+            }
+
+            if (path === '/content/sync-runs' && request.method === 'GET') {
+                const limit = Number(url.searchParams.get('limit')) || 20;
+                const runs = await this.contentInventory.getRuns(limit);
+                return new Response(JSON.stringify(runs), { headers: { 'Content-Type': 'application/json' } });
+            }
+
+            if (path === '/content/rejections' && request.method === 'GET') {
+                const rejections = await this.contentInventory.getRejections(url.searchParams.get('runId') || undefined);
+                return new Response(JSON.stringify(rejections), { headers: { 'Content-Type': 'application/json' } });
+            }
+
             if ((path === '/blogs' || path === '/blog') && request.method === 'GET') {
                 const blogs = await this.getBlogs();
                 return new Response(JSON.stringify(blogs), { headers: { 'Content-Type': 'application/json' } });
             }
 
-            if (path === '/post' && request.method === 'POST') {
-                const { blogId, topic, style, words, research, draft, userPrompt } = await request.json();
-                const result = await this.enhancedAutoBlog(blogId, topic, style, words, research, !draft, userPrompt);
+            if (path === '/products/refresh' && request.method === 'POST') {
+                const result = await this.productCatalog.refresh(true);
                 return new Response(JSON.stringify(result), { headers: { 'Content-Type': 'application/json' } });
             }
 
+            if (path === '/post' && request.method === 'POST') {
+                const { blogId, topic, style, words, research, draft, userPrompt, personaId, faq } = await request.json<any>();
+                const parsed = jobParamsSchema.safeParse({ blogId, topic, style, words, research, publish: !draft, userPrompt, personaId, faq });
+                if (!parsed.success) {
+                    return new Response(JSON.stringify({ error: 'Invalid post parameters', issues: parsed.error.issues }), {
+                        status: 400,
+                        headers: { 'Content-Type': 'application/json' },
+                    });
+                }
+                const job = await this.jobManager.createJob(parsed.data);
+                await this.queue('processJob', { jobId: job.id });
+                return new Response(JSON.stringify({ jobId: job.id, status: job.status, statusUrl: `/jobs/${job.id}` }), {
+                    status: 202,
+                    headers: { 'Content-Type': 'application/json' },
+                });
+            }
+
+            if (path === '/jobs' && request.method === 'GET') {
+                const limit = Number(url.searchParams.get('limit')) || 20;
+                const jobs = await this.jobManager.listJobs(limit);
+                return new Response(JSON.stringify(jobs), { headers: { 'Content-Type': 'application/json' } });
+            }
+
+            if (path === '/links/graph' && request.method === 'POST') {
+                // Reading every article can take a while, so the graph is built in the background
+                this.ctx.waitUntil(this.buildLinkGraph());
+                return new Response(JSON.stringify({ success: true, message: 'Link graph build started in the background.', reportUrl: '/links/report' }), {
+                    headers: { 'Content-Type': 'application/json' },
+                });
+            }
+
+            if (path === '/links/report' && request.method === 'GET') {
+                const limit = Number(url.searchParams.get('limit')) || 20;
+                const report = await this.linkGraph.getReport(limit);
+                return new Response(JSON.stringify(report), { headers: { 'Content-Type': 'application/json' } });
+            }
+
+            if (path === '/backfill/proposals' && request.method === 'GET') {
+                const status = url.searchParams.get('status');
+                const proposals = await this.linkBackfill.listProposals(
+                    status === 'proposed' || status === 'applied' || status === 'rejected' || status === 'failed' ? (status as BackfillStatus) : undefined
+                );
+                return new Response(JSON.stringify(proposals), { headers: { 'Content-Type': 'application/json' } });
+            }
+
+            if (path === '/backfill/audit' && request.method === 'GET') {
+                const limit = Number(url.searchParams.get('limit')) || 100;
+                const entries = await this.linkBackfill.getAuditLog(limit);
+                return new Response(JSON.stringify(entries), { headers: { 'Content-Type': 'application/json' } });
+            }
+
+            const backfillMatch = path.match(/^\/backfill\/proposals\/([^/]+)\/(approve|reject)$/);
+            if (backfillMatch && request.method === 'POST') {
+                const proposal = await this.linkBackfill.getProposal(backfillMatch[1]);
+                if (!proposal) {
+                    return new Response('Proposal not found', { status: 404 });
+                }
+                if (proposal.status !== 'proposed') {
+                    return new Response(`Proposal is already ${proposal.status}`, { status: 409 });
+                }
+                const updated = backfillMatch[2] === 'approve' ? await this.linkBackfill.apply(proposal.id) : await this.linkBackfill.reject(proposal.id);
+                return new Response(JSON.stringify(updated), { headers: { 'Content-Type': 'application/json' } });
+            }
+
+            const jobMatch = path.match(/^\/jobs\/([^/]+)(\/retry)?$/);
+            if (jobMatch) {
+                const job = await this.jobManager.getJob(jobMatch[1]);
+                if (!job) {
+                    return new Response('Job not found', { status: 404 });
+                }
+
+                if (!jobMatch[2] && request.method === 'GET') {
+                    return new Response(JSON.stringify(job), { headers: { 'Content-Type': 'application/json' } });
+                }
+
+                if (jobMatch[2] && request.method === 'POST') {
+                    const retried = await this.jobManager.prepareRetry(job);
+                    await this.queue('processJob', { jobId: retried.id });
+                    return new Response(JSON.stringify({ jobId: retried.id, status: retried.status, statusUrl: `/jobs/${retried.id}` }), {
+                        status: 202,
+                        headers: { 'Content-Type': 'application/json' },
+                    });
+                }
+            }
+
             if (path === '/keywords/research' && request.method === 'POST') {
                 const { topic, count, niche } = await request.json();
                 const keywords = await this.keywordManager.researchKeywords(topic, count, niche);
@@ -93,6 +320,117 @@ export class ShopifyAutobloggerAgent extends Agent<Env, AgentState> {
                 return new Response(JSON.stringify(keywords), { headers: { 'Content-Type': 'application/json' } });
             }
 
+            if (path === '/keywords/cannibalization' && request.method === 'POST') {
+                const { keyword, title } = await request.json<any>();
+                if (!keyword) {
+                    return new Response('keyword is required', { status: 400 });
+                }
+                const result = await this.checkCannibalization(keyword, title);
+                return new Response(JSON.stringify(result), { headers: { 'Content-Type': 'application/json' } });
+            }
+
+            if (path === '/topical-map' && request.method === 'POST') {
+                const map = await this.topicalMap.build(await this.keywordManager.getAllKeywords(), this.site.topicalMap);
+                return new Response(JSON.stringify(map), { headers: { 'Content-Type': 'application/json' } });
+            }
+
+            if (path === '/topical-map' && request.method === 'GET') {
+                const map = await this.topicalMap.getMap();
+                return new Response(JSON.stringify(map), { headers: { 'Content-Type': 'application/json' } });
+            }
+
+            if (path === '/keywords/import' && request.method === 'POST') {
+                const contentType = request.headers.get('Content-Type') || '';
+                let rows: Array<Record<string, unknown>>;
+                if (contentType.includes('json')) {
+                    const body = await request.json<any>();
+                    rows = Array.isArray(body) ? body : body.keywords;
+                    if (!Array.isArray(rows)) {
+                        return new Response('Expected a JSON array of keywords or { keywords: [...] }', { status: 400 });
+                    }
+                    // Plain strings are keywords without any other fields
+                    rows = rows.map((row) => (typeof row === 'string' ? { keyword: row } : row));
+                } else {
+                    rows = parseCsvObjects(await request.text());
+                }
+                const result = await this.keywordManager.importKeywords(rows);
+                return new Response(JSON.stringify(result), { headers: { 'Content-Type': 'application/json' } });
+            }
+
+            if (path === '/keywords/export' && request.method === 'GET') {
+                const status = url.searchParams.get('status');
+                const keywords = await this.keywordManager.exportKeywords(status === 'new' || status === 'used' || status === 'ready' ? status : undefined);
+                if (url.searchParams.get('format') === 'json') {
+                    return new Response(JSON.stringify(keywords), { headers: { 'Content-Type': 'application/json' } });
+                }
+                return new Response(toCsv(KEYWORD_EXPORT_COLUMNS, keywords), {
+                    headers: {
+                        'Content-Type': 'text/csv',
+                        'Content-Disposition': 'attachment; filename="keywords.csv"',
+                    },
+                });
+            }
+
+            if (path === '/batches' && request.method === 'POST') {
+                const parsed = batchRequestSchema.safeParse(await request.json<any>());
+                if (!parsed.success) {
+                    return new Response(JSON.stringify({ error: 'Invalid batch parameters', issues: parsed.error.issues }), {
+                        status: 400,
+                        headers: { 'Content-Type': 'application/json' },
+                    });
+                }
+                let batch: Batch;
+                try {
+                    batch = await this.batchManager.createBatch(parsed.data);
+                } catch (e: any) {
+                    if (e instanceof EmptyBatchError) {
+                        return new Response(JSON.stringify({ error: e.message }), { status: 400, headers: { 'Content-Type': 'application/json' } });
+                    }
+                    throw e;
+                }
+                this.ctx.waitUntil(this.pumpBatch(batch.id));
+                return new Response(JSON.stringify({ batchId: batch.id, status: batch.status, total: batch.items.length, statusUrl: `/batches/${batch.id}` }), {
+                    status: 202,
+                    headers: { 'Content-Type': 'application/json' },
+                });
+            }
+
+            if (path === '/batches' && request.method === 'GET') {
+                const limit = Number(url.searchParams.get('limit')) || 20;
+                const batches = await this.batchManager.listBatches(limit);
+                return new Response(JSON.stringify(batches), { headers: { 'Content-Type': 'application/json' } });
+            }
+
+            const batchMatch = path.match(/^\/batches\/([^/]+)(?:\/(pause|resume|cancel))?$/);
+            if (batchMatch) {
+                const batch = await this.batchManager.getBatch(batchMatch[1]);
+                if (!batch) {
+                    return new Response('Batch not found', { status: 404 });
+                }
+
+                if (!batchMatch[2] && request.method === 'GET') {
+                    return new Response(JSON.stringify(batch), { headers: { 'Content-Type': 'application/json' } });
+                }
+
+                if (batchMatch[2] && request.method === 'POST') {
+                    const action = batchMatch[2];
+                    const allowedFrom: Record<string, BatchStatus[]> = { pause: ['running'], resume: ['paused'], cancel: ['running', 'paused'] };
+                    if (!allowedFrom[action].includes(batch.status)) {
+                        return new Response(`Batch is already ${batch.status}`, { status: 409 });
+                    }
+                    let updated: Batch;
+                    if (action === 'pause') {
+                        updated = await this.batchManager.pause(batch.id);
+                    } else if (action === 'resume') {
+                        updated = await this.batchManager.resume(batch.id);
+                        this.ctx.waitUntil(this.pumpBatch(batch.id));
+                    } else {
+                        updated = await this.batchManager.cancel(batch.id);
+                    }
+                    return new Response(JSON.stringify(updated), { headers: { 'Content-Type': 'application/json' } });
+                }
+            }
+
             if (path === '/keywords/next' && request.method === 'GET') {
                 const keywords = await this.keywordManager.getNextKeywords(10, 5);
                 return new Response(JSON.stringify(keywords), { headers: { 'Content-Type': 'application/json' } });
@@ -100,7 +438,7 @@ export class ShopifyAutobloggerAgent extends Agent<Env, AgentState> {
 
             if (path === '/generate-keywords' && request.method === 'POST') {
                 const { topics, keywordsPerTopic, niche } = await request.json();
-                const csvContent = await this.generateKeywordsCsv(topics || ['pheromones', 'attraction', 'dating', 'confidence'], keywordsPerTopic || 25, niche || 'pheromones');
+                const csvContent = await this.generateKeywordsCsv(topics || this.site.seedTopics, keywordsPerTopic || 25, niche || this.site.niche);
                 return new Response(csvContent, { 
                     headers: { 
                         'Content-Type': 'text/csv',
@@ -109,8 +447,118 @@ export class ShopifyAutobloggerAgent extends Agent<Env, AgentState> {
                 });
             }
 
+            if (path === '/personas' && request.method === 'GET') {
+                return new Response(JSON.stringify({
+                    personas: this.personaManager.getPersonas(),
+                    defaultPersonaId: this.state.defaultPersonaId,
+                    selection: this.state.personaSelection,
+                }), { headers: { 'Content-Type': 'application/json' } });
+            }
+
+            if (path === '/personas' && request.method === 'POST') {
+                const body = await request.json<any>();
+                // Either generate a persona with the LLM or store one written by hand
+                const parsed = body?.generate ? personaGenerateSchema.safeParse(body) : personaInputSchema.safeParse(body);
+                if (!parsed.success) {
+                    return new Response(JSON.stringify({ error: 'Invalid persona', issues: parsed.error.issues }), {
+                        status: 400,
+                        headers: { 'Content-Type': 'application/json' },
+                    });
+                }
+                const persona = 'topicArea' in parsed.data
+                    ? await this.personaManager.createPersona(parsed.data.topicArea, parsed.data.style)
+                    : this.personaManager.addPersona(parsed.data);
+                this.savePersonas();
+                return new Response(JSON.stringify(persona), { status: 201, headers: { 'Content-Type': 'application/json' } });
+            }
+
+            if (path === '/personas/settings' && request.method === 'POST') {
+                const { defaultPersonaId, selection } = await request.json<any>();
+                if (defaultPersonaId && !this.personaManager.getPersona(defaultPersonaId)) {
+                    return new Response(`Persona ${defaultPersonaId} not found`, { status: 404 });
+                }
+                if (selection && !['default', 'topic', 'rotate'].includes(selection)) {
+                    return new Response('selection must be one of: default, topic, rotate', { status: 400 });
+                }
+                this.savePersonas({
+                    defaultPersonaId: defaultPersonaId ?? this.state.defaultPersonaId,
+                    personaSelection: selection ?? this.state.personaSelection,
+                });
+                return new Response(JSON.stringify({ defaultPersonaId: this.state.defaultPersonaId, selection: this.state.personaSelection }), {
+                    headers: { 'Content-Type': 'application/json' },
+                });
+            }
+
+            const personaMatch = path.match(/^\/personas\/([^/]+)$/);
+            if (personaMatch) {
+                const personaId = personaMatch[1];
+                const persona = this.personaManager.getPersona(personaId);
+                if (!persona) {
+                    return new Response('Persona not found', { status: 404 });
+                }
+
+                if (request.method === 'GET') {
+                    return new Response(JSON.stringify(persona), { headers: { 'Content-Type': 'application/json' } });
+                }
+
+                if (request.method === 'PUT') {
+                    const parsed = personaUpdateSchema.safeParse(await request.json());
+                    if (!parsed.success) {
+                        return new Response(JSON.stringify({ error: 'Invalid persona', issues: parsed.error.issues }), {
+                            status: 400,
+                            headers: { 'Content-Type': 'application/json' },
+                        });
+                    }
+                    const updated = this.personaManager.updatePersona(personaId, parsed.data);
+                    this.savePersonas();
+                    return new Response(JSON.stringify(updated), { headers: { 'Content-Type': 'application/json' } });
+                }
+
+                if (request.method === 'DELETE') {
+                    if (personaId === this.state.defaultPersonaId) {
+                        return new Response('Cannot delete the default persona, choose another default first', { status: 409 });
+                    }
+                    this.personaManager.deletePersona(personaId);
+                    this.savePersonas();
+                    return new Response(null, { status: 204 });
+                }
+            }
+
+            if (path === '/autopilot' && request.method === 'GET') {
+                const status = await this.autopilot.getStatus();
+                return new Response(JSON.stringify(status), { headers: { 'Content-Type': 'application/json' } });
+            }
+
+            if (path === '/autopilot' && request.method === 'POST') {
+                const update = await request.json<any>();
+                const config = await this.autopilot.configure(update);
+                return new Response(JSON.stringify(config), { headers: { 'Content-Type': 'application/json' } });
+            }
+
+            if (path === '/autopilot/pause' && request.method === 'POST') {
+                const config = await this.autopilot.pause();
+                return new Response(JSON.stringify(config), { headers: { 'Content-Type': 'application/json' } });
+            }
+
+            if (path === '/autopilot/resume' && request.method === 'POST') {
+                const config = await this.autopilot.resume();
+                return new Response(JSON.stringify(config), { headers: { 'Content-Type': 'application/json' } });
+            }
+
+            if (path === '/autopilot/runs' && request.method === 'GET') {
+                const limit = Number(url.searchParams.get('limit')) || 20;
+                const runs = await this.autopilot.getRuns(limit);
+                return new Response(JSON.stringify(runs), { headers: { 'Content-Type': 'application/json' } });
+            }
+
             return new Response('Not found in agent', { status: 404 });
         } catch (e: any) {
+            if (e instanceof AutopilotConfigError) {
+                return new Response(JSON.stringify({ error: 'Invalid autopilot configuration', issues: e.issues }), {
+                    status: 400,
+                    headers: { 'Content-Type': 'application/json' },
+                });
+            }
             console.error("Error in agent onRequest:", e);
             return new Response(e.stack, { status: 500 });
         }
@@ -123,100 +571,466 @@ export class ShopifyAutobloggerAgent extends Agent<Env, AgentState> {
     }
 
     /**
-     * Creates and returns the static "Alexa Velinxs" persona.
-     * This ensures a consistent and strong brand voice for the blog.
-     * @returns The Alexa Velinxs persona object.
+     * Persists the persona manager's records to agent state.
      */
-    private getAlexaVelinxsPersona(): AuthorPersona {
-        return {
-            id: "static-alexa-velinxs",
-            name: "Alexa Velinxs",
-            background: "A 15-year veteran pheromone researcher and passionate advocate who has witnessed the transformative power of pheromone science firsthand. As a relationship and attraction expert, she helps people understand how pheromones can naturally enhance their appeal and confidence. Alexa Velinxs is pro-pheromones and works for royalpheromones.com which sells Liquid Alchemy Labs products - the gold standard in pheromone technology.",
-            expertise: ["pheromone research", "relationship psychology", "attraction science", "social confidence", "Liquid Alchemy Labs formulations", "dating enhancement"],
-            experience_years: "15+",
-            education: "Ph.D. in Pheromone Research & Human Behavior",
-            achievements: ["15 years of pheromone research breakthroughs", "Helped thousands improve their dating success with pheromone strategies", "Pioneer in practical pheromone applications for everyday confidence"],
-            writing_voice: "Passionate, confident, and genuinely helpful. She writes in accessible, straightforward language about the power of pheromones, combining scientific knowledge with practical advice. Enthusiastically promotes the effectiveness of quality pheromone products while being relatable and encouraging.",
-            signature_style: "Enthusiastic advocate who addresses pheromone questions with evidence and real results. Combines practical relationship advice with cutting-edge pheromone science to help readers build genuine confidence and natural attraction.",
-            created_at: new Date().toISOString(),
-            topic_area: "all",
-            style: "informative-edgy"
-        };
+    private savePersonas(update: Partial<AgentState> = {}) {
+        this.setState({ ...this.state, ...update, personas: this.personaManager.getPersonas() });
     }
 
+    /**
+     * Resolves the persona for a post: an explicit id wins, otherwise the configured selection mode decides.
+     */
+    private resolvePersona(topic: string, personaId?: string): AuthorPersona {
+        if (personaId) {
+            const persona = this.personaManager.getPersona(personaId);
+            if (!persona) {
+                throw new Error(`Persona ${personaId} not found`);
+            }
+            return persona;
+        }
+
+        const personas = this.personaManager.getPersonas();
+        const fallback = this.personaManager.getPersona(this.state.defaultPersonaId ?? '') ?? personas[0];
+        if (!fallback) {
+            throw new Error('No personas configured');
+        }
+
+        if (this.state.personaSelection === 'topic') {
+            return this.personaManager.findPersonaForKeyword(topic) ?? fallback;
+        }
+
+        if (this.state.personaSelection === 'rotate') {
+            const index = (this.state.personaRotationIndex ?? 0) % personas.length;
+            this.savePersonas({ personaRotationIndex: index + 1 });
+            return personas[index];
+        }
+
+        return fallback;
+    }
+
+    /**
+     * Scheduled callback for autopilot publishing. Invoked by the Agent scheduler.
+     */
+    async runAutopilot(payload: { scheduledFor: string }) {
+        console.log(`⏰ Autopilot slot fired (scheduled for ${payload?.scheduledFor})`);
+        return this.autopilot.executeRun();
+    }
+
+    getArticleUrl(handle: string, blogHandle: string = 'articles'): string {
+        return `${this.site.domain}/blogs/${blogHandle}/${handle}`;
+    }
+
+    /**
+     * Storefront URL of a Shopify article, looking up the handle of the blog it belongs to.
+     */
+    async resolveArticleUrl(article: { handle: string; blog_id: number }): Promise<string> {
+        const blog = await this.shopify.getBlog(article.blog_id).catch(() => undefined);
+        return this.getArticleUrl(article.handle, blog?.handle);
+    }
+
+    /**
+     * Runs the full post pipeline synchronously and returns the created article.
+     * Used by callers that are already in the background, such as autopilot.
+     */
     async enhancedAutoBlog(blogId: number, topic: string, style: string, wordCount: number, researchDepth: 'quick' | 'comprehensive' | 'competitive', publish: boolean, userPrompt?: string) {
-        const persona = this.getAlexaVelinxsPersona();
-        const contentData = await this.generateBlogContent(topic, style, wordCount, researchDepth, persona, userPrompt);
-        contentData.keyword = topic;
-        return this.createBlogPost(blogId, contentData, publish, topic);
+        // Fail fast before research and writing when the keyword alone already conflicts; the job checks again with the title
+        const preflight = await this.checkCannibalization(topic);
+        if (preflight.action === 'block') {
+            throw new CannibalizationError(preflight);
+        }
+        const job = await this.jobManager.createJob({ blogId, topic, style, words: wordCount, research: researchDepth, publish, userPrompt });
+        const finished = await this.runJob(job.id);
+        if (finished.status !== 'completed') {
+            throw new Error(finished.error || `Job ${job.id} did not complete`);
+        }
+        return finished.artifacts.article;
     }
 
-    async generateBlogContent(topic: string, style: string, wordCount: number, researchDepth: 'quick' | 'comprehensive' | 'competitive', persona: AuthorPersona, userPrompt?: string) {
-        const researchData = await this.researcher.researchTopic(topic, researchDepth);
-        
-        // Generate an embedding for the new topic to find similar articles
-        const embeddingResponse = await this.env.AI.run('@cf/baai/bge-base-en-v1.5', {
-          text: [topic]
+    /**
+     * Queue callback for jobs enqueued by POST /post. Never throws, failures are recorded on the job.
+     */
+    async processJob(payload: { jobId: string }) {
+        try {
+            await this.runJob(payload.jobId);
+        } catch (e: any) {
+            console.error(`❌ Job ${payload.jobId} crashed:`, e);
+        }
+    }
+
+    /**
+     * Fills a batch's free concurrency slots with jobs, each running in the background.
+     */
+    private async pumpBatch(batchId: string) {
+        for (const item of await this.batchManager.claimItems(batchId)) {
+            console.log(`📦 Batch ${batchId}: starting "${item.keyword}" (job ${item.job_id})`);
+            this.ctx.waitUntil(this.runBatchItem(item));
+        }
+    }
+
+    private async runBatchItem(item: BatchItem) {
+        try {
+            const job = await this.runJob(item.job_id ?? '');
+            await this.batchManager.finishItem(item, job);
+        } catch (e: any) {
+            console.error(`❌ Batch ${item.batch_id} item "${item.keyword}" crashed:`, e);
+            await this.batchManager.finishItem(item, undefined, e.message || String(e));
+        }
+        await this.pumpBatch(item.batch_id);
+    }
+
+    /**
+     * Requeues the jobs an eviction or redeploy cut off, which would otherwise stay queued or running forever.
+     * The agent's queue is only flushed when something is queued, so each job gets a fresh entry.
+     */
+    private async recoverJobs() {
+        // Batch items restart their own jobs
+        const batchJobs = new Set((await this.batchManager.getInterruptedItems()).map((item) => item.job_id));
+        for (const job of await this.jobManager.listUnfinishedJobs()) {
+            if (batchJobs.has(job.id)) continue;
+            console.log(`🧾 Resuming job ${job.id} (${job.status}${job.current_stage ? ` at ${job.current_stage} stage` : ''})`);
+            for (const entry of await this.getQueues('jobId', job.id)) {
+                await this.dequeue(entry.id);
+            }
+            await this.queue('processJob', { jobId: job.id });
+        }
+        await this.resumeBatches();
+    }
+
+    /**
+     * Restarts the jobs of batch items that were running when the agent stopped, e.g. after a redeploy,
+     * then refills every running batch.
+     */
+    private async resumeBatches() {
+        const interrupted = await this.batchManager.getInterruptedItems();
+        for (const item of interrupted) {
+            console.log(`📦 Batch ${item.batch_id}: resuming "${item.keyword}" (job ${item.job_id})`);
+            this.ctx.waitUntil(this.runBatchItem(item));
+        }
+        for (const batchId of await this.batchManager.getRunningBatchIds()) {
+            await this.pumpBatch(batchId);
+        }
+    }
+
+    /**
+     * Runs every stage of a job that has not completed yet, persisting progress after each one.
+     */
+    async runJob(jobId: string): Promise<Job> {
+        const job = await this.jobManager.getJob(jobId);
+        if (!job) {
+            throw new Error(`Job ${jobId} not found`);
+        }
+
+        job.attempts += 1;
+        console.log(`\n🧾 JOB ${job.id} STARTED (attempt ${job.attempts}) for "${job.params.topic}"`);
+
+        for (const stage of JOB_STAGES) {
+            const state = job.stages[stage];
+            if (state.status === 'completed' || state.status === 'skipped') {
+                continue;
+            }
+
+            await this.jobManager.startStage(job, stage);
+            try {
+                await this.runStage(job, stage);
+                await this.jobManager.finishStage(job, stage);
+            } catch (e: any) {
+                if (stage === 'image' || stage === 'faq' || stage === 'backfill') {
+                    // Continue without the image, FAQ or backlinks rather than failing the whole post
+                    const label = { image: 'Featured image', faq: 'FAQ', backfill: 'Link backfill' }[stage];
+                    console.error(`⚠️ ${label} failed, continuing without it:`, e.message);
+                    await this.jobManager.finishStage(job, stage, 'skipped', e.message);
+                    continue;
+                }
+                console.error(`❌ Job ${job.id} failed at ${stage} stage:`, e);
+                await this.jobManager.failStage(job, stage, e.message || String(e));
+                return job;
+            }
+        }
+
+        await this.jobManager.completeJob(job);
+        console.log(`✅ JOB ${job.id} COMPLETE`);
+        return job;
+    }
+
+    private async runStage(job: Job, stage: JobStage): Promise<void> {
+        const { params, artifacts } = job;
+
+        switch (stage) {
+            case 'research':
+                artifacts.research = await this.researcher.researchTopic(params.topic, params.research);
+                break;
+            case 'writing': {
+                const persona = this.resolvePersona(params.topic, params.personaId);
+                artifacts.internalLinks = await this.withClusterLinks(params.topic, await this.findInternalLinks(params.topic));
+                const contentData = await this.generateBlogContent(params.topic, params.style, params.words, artifacts.research, persona, artifacts.internalLinks, params.userPrompt);
+                artifacts.content = { ...contentData, keyword: params.topic };
+                break;
+            }
+            case 'cannibalization': {
+                const result = await this.checkCannibalization(params.topic, artifacts.content!.title);
+                artifacts.cannibalization = result;
+                if (result.verdict === 'safe') {
+                    break;
+                }
+                console.warn(`⚠️ "${params.topic}" ${result.verdict === 'overlap' ? 'overlaps' : 'cannibalizes'} ${result.conflicts.map((c) => `${c.url} (${c.score})`).join(', ')}`);
+                if (result.action === 'block') {
+                    throw new CannibalizationError(result);
+                }
+                break;
+            }
+            case 'links': {
+                const { html, report } = await auditLinks(artifacts.content!.content, artifacts.internalLinks || [], this.site.domain, this.llm);
+                console.log(`🔗 Link audit: ${report.kept}/${report.total} kept, ${report.remapped.length} remapped, ${report.dropped.length} dropped`);
+                // Every cluster post links up to its pillar, even when the writer left the link out
+                const pillar = artifacts.internalLinks?.find((link) => link.role === 'pillar');
+                artifacts.content = { ...artifacts.content!, content: pillar ? ensurePillarLink(html, pillar) : html };
+                artifacts.linkReport = report;
+                break;
+            }
+            case 'quality': {
+                const thresholds = this.site.quality;
+                let report = this.checkQuality(artifacts.html!, params.topic, params.words);
+                let regenerations = 0;
+                let revisionError: string | undefined;
+                while (!report.passed && thresholds.onFail === 'regenerate' && regenerations < thresholds.maxRegenerations) {
+                    regenerations++;
+                    const failing = report.checks.filter((check) => !check.passed);
+                    console.log(`📏 Quality score ${report.score} below ${thresholds.minScore}, revising (${regenerations}/${thresholds.maxRegenerations}): ${failing.map((c) => c.name).join(', ')}`);
+                    try {
+                        // Only the body is revised, the FAQ is kept as written and the same products are placed in the revised body
+                        const content: string = artifacts.content!.content;
+                        const faqIndex = content.search(/<section class="faq"/);
+                        const body = faqIndex >= 0 ? content.substring(0, faqIndex) : content;
+                        const revised = await this.reviseForQuality({ ...artifacts.content!, content: body }, failing, artifacts.internalLinks || []);
+                        const audited = await auditLinks(revised, artifacts.internalLinks || [], this.site.domain, this.llm);
+                        const pillar = artifacts.internalLinks?.find((link) => link.role === 'pillar');
+                        const revisedBody = pillar ? ensurePillarLink(audited.html, pillar) : audited.html;
+                        artifacts.content = { ...artifacts.content!, content: faqIndex >= 0 ? `${revisedBody}\n${content.substring(faqIndex)}` : revisedBody };
+                        artifacts.linkReport = audited.report;
+                        artifacts.html = (await this.integrateProducts(artifacts.content!, params.productTemplate, artifacts.products)).html;
+                    } catch (e: any) {
+                        console.error(`⚠️ Quality revision failed, keeping the last version:`, e.message);
+                        revisionError = e.message || String(e);
+                        break;
+                    }
+                    report = this.checkQuality(artifacts.html, params.topic, params.words);
+                }
+                artifacts.quality = { ...report, regenerations, forcedDraft: !report.passed, revisionError };
+                if (report.passed) {
+                    console.log(`📏 Quality score ${report.score}/100`);
+                } else {
+                    console.warn(`⚠️ Quality score ${report.score} below ${thresholds.minScore}, the post will be saved as a draft`);
+                }
+                break;
+            }
+            case 'faq': {
+                const keyword = await this.keywordManager.getKeyword(params.topic);
+                if (!shouldIncludeFaq(params.faq, params.topic, keyword?.intent)) {
+                    console.log(`❔ FAQ skipped for "${params.topic}" (${keyword?.intent || 'no'} intent)`);
+                    artifacts.faq = [];
+                    break;
+                }
+                const persona = artifacts.content!.author_persona ?? this.resolvePersona(params.topic, params.personaId);
+                const faq = await generateFaq(this.llm, params.topic, artifacts.research, persona, keyword?.intent);
+                console.log(`❔ FAQ written with ${faq.length} questions`);
+                artifacts.faq = faq;
+                artifacts.content = { ...artifacts.content!, content: `${artifacts.content!.content}\n${renderFaqSection(faq)}`, faq };
+                break;
+            }
+            case 'products': {
+                const { html, products } = await this.integrateProducts(artifacts.content!, params.productTemplate);
+                artifacts.html = html;
+                artifacts.products = products;
+                break;
+            }
+            case 'image': {
+                // Body images degrade on their own, so they are resolved before the featured image can fail the stage
+                artifacts.html = await this.createBodyImages(artifacts.html!, artifacts.content);
+                const image = await this.createFeaturedImage(params.topic, artifacts.content);
+                artifacts.featuredImageUrl = image.url;
+                artifacts.featuredImageAlt = image.alt;
+                break;
+            }
+            case 'publish': {
+                artifacts.html = stripUnresolvedImages(artifacts.html!);
+                const existing = artifacts.cannibalization?.action === 'refresh' ? await this.findRefreshTarget(artifacts.cannibalization) : undefined;
+                if (existing && artifacts.quality?.forcedDraft) {
+                    // A draft can't replace a live post without unpublishing it, so the post is left as it is
+                    throw new Error(`Refresh of "${existing.article.title}" failed the quality gate (score ${artifacts.quality.score}), the existing post was not changed`);
+                }
+                artifacts.article = await this.createBlogPost(
+                    params.blogId,
+                    artifacts.content!,
+                    artifacts.html,
+                    artifacts.featuredImageUrl,
+                    params.publish && !artifacts.quality?.forcedDraft && artifacts.cannibalization?.action !== 'draft',
+                    params.topic,
+                    artifacts.featuredImageAlt,
+                    artifacts.quality,
+                    existing
+                );
+                break;
+            }
+            case 'backfill': {
+                const article = artifacts.article;
+                // Drafts aren't reachable yet, so nothing should link to them
+                if (!this.site.backfill.enabled || !article?.published_at) {
+                    console.log(`🔗 Link backfill skipped${article?.published_at ? '' : ', the post is not published'}`);
+                    artifacts.backfill = [];
+                    break;
+                }
+                // The pillar links down to a new cluster post, and a new pillar's cluster posts link up to it
+                const clusterSources = (artifacts.internalLinks || []).filter((link) => link.role).map((link) => link.url);
+                artifacts.backfill = await this.linkBackfill.backfill(
+                    { url: await this.resolveArticleUrl(article), title: article.title, keyword: params.topic },
+                    job.id,
+                    clusterSources
+                );
+                break;
+            }
+        }
+    }
+
+    /**
+     * Checks a keyword, and optionally a draft title, against existing blog posts under the site's policy.
+     */
+    async checkCannibalization(keyword: string, title?: string): Promise<CannibalizationResult> {
+        return checkCannibalization(this.llm, this.env.VECTORIZE_INDEX, keyword, this.site.cannibalization, {
+            title,
+            namespace: this.site.vectorizeNamespace,
         });
-        const topicEmbedding = embeddingResponse.data[0];
+    }
+
+    /**
+     * Finds the Shopify article to rewrite for the "refresh" policy, the most similar conflict that still exists.
+     */
+    private async findRefreshTarget(result: CannibalizationResult): Promise<{ blogId: number; article: any } | undefined> {
+        for (const conflict of result.conflicts) {
+            const found = await this.shopify.findArticleByUrl(conflict.url).catch((e) => {
+                console.warn(`⚠️ Could not look up ${conflict.url}: ${e.message}`);
+                return undefined;
+            });
+            if (found) {
+                console.log(`♻️ Refreshing existing post ${conflict.url} instead of creating a new one`);
+                return found;
+            }
+        }
+        console.warn(`⚠️ No existing post found to refresh, creating a new one`);
+        return undefined;
+    }
+
+    /**
+     * Scores article HTML against the site's quality thresholds.
+     */
+    checkQuality(html: string, keyword: string, targetWords: number): Omit<QualityReport, 'regenerations' | 'forcedDraft'> {
+        const metrics = analyzeContent(html, keyword, this.site.domain);
+        return scoreContent(metrics, keyword, targetWords, this.site.quality);
+    }
+
+    /**
+     * Asks the writer to fix only the failed quality checks, keeping the rest of the article as it is.
+     * @returns The revised, sanitized article HTML.
+     */
+    private async reviseForQuality(contentData: any, failing: QualityCheck[], internalLinks: InternalLink[]): Promise<string> {
+        const persona: AuthorPersona | undefined = contentData.author_persona;
+        const prompt = `You wrote the blog post below${persona ? ` as ${persona.name}` : ''}. It failed these quality checks:
+${failing.map((check) => `- ${check.name}: ${check.actual}, expected ${check.expected}. ${check.fix}`).join('\n')}
+
+Revise the article to fix exactly these problems. Keep the voice, facts, structure and existing links otherwise unchanged.
+New links may only use these URLs:
+<links>
+${JSON.stringify(internalLinks.map((link) => link.url))}
+</links>
+
+<article>
+${contentData.content}
+</article>
+
+Return JSON: {"content": "the full revised article as a single HTML string"}`;
 
-        // Query Vectorize for the most similar content (blogs, products, collections)
+        const response = await this.llm.chatJSON<{ content?: string }>('writing', [{ role: 'user', content: prompt }]);
+        if (typeof response.content !== 'string' || response.content.trim().length === 0) {
+            throw new Error('Quality revision returned no content');
+        }
+        return sanitizeArticleHtml(response.content);
+    }
+
+    /**
+     * Rebuilds the internal link graph from the store's articles and pages. Failures are logged, not thrown.
+     */
+    async buildLinkGraph() {
+        try {
+            const inventory = await this.contentInventory.listItems();
+            return await this.linkGraph.build(this.shopify, this.site.domain, inventory.map((item) => ({ url: item.url, title: item.title })));
+        } catch (e: any) {
+            console.error(`❌ Link graph build failed:`, e);
+            return undefined;
+        }
+    }
+
+    /**
+     * Finds the site pages most similar to a topic, which are the only internal links the writer may use.
+     */
+    async findInternalLinks(topic: string): Promise<InternalLink[]> {
+        // Generate an embedding for the new topic to find similar articles
+        const [topicEmbedding] = await this.llm.embed([topic]);
+
+        // Query Vectorize for the most similar content (blogs, products, collections).
+        // Pages are stored as several chunks, so matches are grouped back into pages.
+        const site = this.site;
         const similarContent = await this.env.VECTORIZE_INDEX.query(topicEmbedding, { 
-            topK: 20,
+            topK: 20, // Vectorize's maximum when returning metadata
+            namespace: site.vectorizeNamespace,
+            returnMetadata: 'all',
             filter: { contentType: { $in: ['blog', 'product', 'collection'] } }
         });
         
-        // Validate and filter results
-        const validLinks = similarContent.matches
-            .filter(match => {
-                const url = match.vector.metadata?.url;
-                const contentType = match.vector.metadata?.contentType;
-                // Basic URL validation and ensure we have required metadata
-                return url && 
-                       url.startsWith('https://royalpheromones.com') && 
-                       contentType &&
-                       match.vector.metadata?.title &&
-                       match.vector.metadata?.primaryKeyword;
-            })
-            .map(match => ({
-                url: match.vector.metadata.url,
-                title: match.vector.metadata.title,
-                primaryKeyword: match.vector.metadata.primaryKeyword,
-                contentType: match.vector.metadata.contentType,
-                score: match.score,
-            }))
+        // Vectors can outlive their page until the next sync, so only link pages still in the inventory
+        const inventory = await this.contentInventory.listItems();
+        const existingUrls = new Set(inventory.map((item) => item.url));
+
+        // Validate and filter results, preferring pages few others link to among similar ones
+        const inDegrees = await this.linkGraph.getInDegrees();
+        const validLinks = favorUnderlinked(aggregateChunkMatches(similarContent.matches), inDegrees)
+            .filter(link => (existingUrls.size === 0 || existingUrls.has(link.url)) && link.url.startsWith(site.domain))
             .slice(0, 10); // Take top 10 after filtering
         
         // Add fallback links if vectorize is empty or has few results
-        const fallbackLinks = [];
-        if (validLinks.length < 5) {
-            fallbackLinks.push(
-                {
-                    url: 'https://royalpheromones.com/collections/mens-pheromone-colognes',
-                    title: 'Men\'s Pheromone Colognes',
-                    primaryKeyword: 'pheromone colognes for men',
-                    contentType: 'collection',
-                    score: 0.7
-                },
-                {
-                    url: 'https://royalpheromones.com/collections/womens-pheromone-perfumes', 
-                    title: 'Women\'s Pheromone Perfumes',
-                    primaryKeyword: 'pheromone perfumes for women',
-                    contentType: 'collection',
-                    score: 0.6
-                }
-            );
-        }
+        const fallbackLinks = validLinks.length < 5 ? site.fallbackLinks : [];
         
-        const internalLinks = [...validLinks, ...fallbackLinks].slice(0, 10);
+        return [...validLinks, ...fallbackLinks].slice(0, 10);
+    }
 
+    /**
+     * Adds the post's pillar page, or for a pillar post its published cluster posts, to the allowed links.
+     */
+    private async withClusterLinks(topic: string, links: InternalLink[]): Promise<InternalLink[]> {
+        if (!this.site.topicalMap.linkClusters) {
+            return links;
+        }
+        const context = await this.topicalMap.getClusterContext(topic);
+        if (!context) {
+            return links;
+        }
+        const cluster = clusterLinks(context);
+        const clusterUrls = new Set(cluster.map((link) => link.url));
+        console.log(`🗺️ "${topic}" is ${context.isPillar ? 'the pillar' : 'in the cluster'} of "${context.cluster.name}", adding ${cluster.length} cluster links`);
+        return [...cluster, ...links.filter((link) => !clusterUrls.has(link.url))];
+    }
+
+    /**
+     * Writes the article for a topic and validates it against the article schema.
+     * @throws ArticleValidationError when the model can't produce a valid article.
+     */
+    async generateBlogContent(topic: string, style: string, wordCount: number, researchData: any, persona: AuthorPersona, internalLinks: InternalLink[], userPrompt?: string) {
+        const site = this.site;
         const systemPrompt = `
-You are a ghostwriter, fully embodying the persona of ${persona.name}. Your task is to write a comprehensive, SEO-optimized, 1500-word blog post for the Royal Pheromones blog on the topic of "${topic}".
+You are a ghostwriter, fully embodying the persona of ${persona.name}. Your task is to write a comprehensive, SEO-optimized, ${wordCount}-word blog post for the ${site.brandName} blog on the topic of "${topic}".
 
 **Brand Context:**
-The blog is for Royal Pheromones, the premier destination for Liquid Alchemy Labs pheromone products. Your content must be strongly PRO-PHEROMONE and enthusiastically promote the effectiveness of quality pheromone products. You are a passionate advocate, not a skeptic. Present pheromones as powerful, scientifically-backed tools for attraction and social success. Build excitement and confidence in pheromone technology.
+${site.brandVoice}
 
-**Your Persona: Alexa Velinxs**
+**Your Persona: ${persona.name}**
 - **Background:** ${persona.background}
 - **Expertise:** ${persona.expertise.join(', ')}
 - **Writing Voice & Style:** ${persona.writing_voice} ${persona.signature_style}
@@ -233,23 +1047,23 @@ ${JSON.stringify(researchData.research_content)}
 </research>
 
 **Internal Linking Strategy - CRITICAL:**
-You MUST include multiple contextual internal links throughout your article. Here are contextually relevant pages from the Royal Pheromones site identified by semantic similarity:
+You MUST include multiple contextual internal links throughout your article. Here are contextually relevant pages from the ${site.brandName} site identified by semantic similarity:
 
-- **Homepage** (ALWAYS AVAILABLE) - Link to https://royalpheromones.com when introducing the site, mentioning "Royal Pheromones," or discussing the brand generally. Use anchor text like "Royal Pheromones," "our site," "we offer," etc.
-- **Collection pages** (HIGH PRIORITY) - Link when discussing product categories, types of pheromones, or shopping recommendations
+- **Homepage** (ALWAYS AVAILABLE) - Link to ${site.domain} when introducing the site, mentioning "${site.brandName}," or discussing the brand generally. Use anchor text like "${site.brandName}," "our site," "we offer," etc.
+- **Collection pages** (HIGH PRIORITY) - Link when discussing product categories, product types, or shopping recommendations
 - **Product pages** (HIGH PRIORITY) - Link when mentioning specific products, ingredients, or making recommendations  
 - **Blog articles** - Link when referencing topics, research, or providing additional reading
 
-Each link includes a 'primaryKeyword' and 'contentType'. Use the primaryKeyword to create natural, context-aware anchor text that fits the flow. You should include at least 8-12 contextual internal links throughout the article, including at least one homepage link. Be very aggressive about linking - every relevant mention should have a link. Include links in every major section of your article. NEVER use the same URL more than once in a single article.
+Each link includes a 'primaryKeyword' and 'contentType'. Some also list 'sections' of that page that match this topic: when your text relates to one of those sections specifically, link to the section's 'url' instead of the page 'url' to send readers straight to it. Use the primaryKeyword to create natural, context-aware anchor text that fits the flow. A link with the 'role' "pillar" is the main guide of this post's topic cluster: link to it once, early in the article. Links with the 'role' "cluster" are the posts of the cluster this post is the main guide for: link to each of them where its subtopic comes up. You should include at least 8-12 contextual internal links throughout the article, including at least one homepage link. Be very aggressive about linking - every relevant mention should have a link. Include links in every major section of your article. NEVER use the same URL more than once in a single article.
 
-CRITICAL: ONLY use URLs from the provided links list below, plus https://royalpheromones.com for homepage links. Do NOT create or guess URLs. All links have been validated and are guaranteed to work. If you need more variety, be creative with different anchor text for the same categories.
+CRITICAL: ONLY use URLs from the provided links list below, plus ${site.domain} for homepage links. Do NOT create or guess URLs. All links have been validated and are guaranteed to work. If you need more variety, be creative with different anchor text for the same categories.
 
 <links>
 ${JSON.stringify(internalLinks)}
 </links>
 
 **Content Requirements:**
-1.  **Length:** ~1500 words.
+1.  **Length:** ~${wordCount} words. Stay within 10% of this length.
 2.  **SEO OPTIMIZATION (CRITICAL):** 
    - Use "${topic}" as the primary keyword throughout the article (aim for 1-2% density)
    - Include the primary keyword in: H1 title, first paragraph, at least 2 H2 headings, and conclusion
@@ -259,25 +1073,24 @@ ${JSON.stringify(internalLinks)}
    - Use a clear heading structure (H1, H2, H3) with keywords in headings where natural
 3.  **Formatting:** The 'content' field must be a single HTML string with proper tags (h1, h2, h3, p, strong, em, a, img).
 4.  **Tone:** Write from your persona's first-person perspective ("I", "my").
-5.  **Images:** Include 2-3 relevant images using this format: <img src="https://images.unsplash.com/photo-PHOTOID?w=800&h=400&fit=crop" alt="Alt text" style="width: 100%; max-width: 800px; height: auto; margin: 20px 0; border-radius: 8px;">. Use search terms like "cologne", "perfume", "attraction", "confidence", "dating" to find appropriate photo IDs from Unsplash.
-6.  **Stance:** Be enthusiastically PRO-PHEROMONE. Present pheromones as effective, scientifically-backed tools. Counter skepticism with confidence and results.
+5.  **Images:** Include 2-3 image placeholders where a visual genuinely helps the reader, using exactly this format: <img data-image-prompt="Detailed description of the photo or illustration to create" alt="Descriptive alt text">. The images are generated from the description afterwards, so NEVER use image URLs.
+6.  **Stance:** Stay true to the brand context above in every section.
 
 **JSON Output Structure:**
 - "title": SEO-friendly title.
 - "meta_description": 150-160 character meta description.
 - "summary": 2-3 sentence compelling summary/excerpt of the article.
 - "handle": Short, clean URL slug based on primary keyword (e.g., "best-pheromone-cologne" for "best pheromone cologne for men").
-- "content": The full 1500-word blog post as a single HTML string (no markdown, pure HTML).
+- "content": The full ${wordCount}-word blog post as a single HTML string (no markdown, pure HTML).
 - "tags": An array of 5-7 relevant SEO tags.
 `;
 
-        const response = await this.openai.chat.completions.create({
-            model: 'gpt-4.1',
-            messages: [{ role: 'system', content: systemPrompt }, { role: 'user', content: `Write the blog post about ${topic}, ensuring it is at least 1500 words and follows all instructions.` }],
-            response_format: { type: 'json_object' },
-        });
-        const content = JSON.parse(response.choices[0].message.content || '{}');
-        return { ...content, author_persona: persona };
+        const article = await generateValidArticle(this.llm, [
+            { role: 'system', content: systemPrompt },
+            { role: 'user', content: `Write the blog post about ${topic}, ensuring it is about ${wordCount} words and follows all instructions.` },
+        ]);
+        // Sanitize right away so the link audit and later stages always work on clean HTML
+        return { ...article, content: sanitizeArticleHtml(article.content), author_persona: persona };
     }
 
     /**
@@ -296,110 +1109,205 @@ ${JSON.stringify(internalLinks)}
     }
 
     /**
-     * Sanitizes HTML content to remove unnecessary elements and keep only blog post content.
-     * @param html The HTML content from OpenAI.
-     * @returns Clean HTML string suitable for Shopify blog posts.
+     * Sanitizes the generated HTML and places contextual product cards between the sections of its body,
+     * never inside the FAQ. Products chosen earlier are reused, so a revised post keeps the same ones.
+     * @returns The article HTML ready for publishing, and the products it features.
      */
-    private sanitizeHtml(html: string): string {
-        if (typeof html !== 'string') {
-            return JSON.stringify(html); // Fallback for unexpected types
-        }
-        
-        let cleanHtml = html
-            // Remove doctype, html, head, body tags if present
-            .replace(/<!DOCTYPE[^>]*>/gi, '')
-            .replace(/<\/?html[^>]*>/gi, '')
-            .replace(/<\/?head[^>]*>/gi, '')
-            .replace(/<\/?body[^>]*>/gi, '')
-            .replace(/<\/?meta[^>]*>/gi, '')
-            .replace(/<\/?title[^>]*>/gi, '')
-            .replace(/<\/?link[^>]*>/gi, '')
-            .replace(/<\/?script[^>]*>[\s\S]*?<\/script>/gi, '')
-            .replace(/<\/?style[^>]*>[\s\S]*?<\/style>/gi, '')
-            // Remove markdown code block wrappers if they exist
-            .replace(/^```[\s\S]*?\n/, '')
-            .replace(/\n```$/, '')
-            .replace(/^```html\s*/, '')
-            .replace(/^```markdown\s*/, '')
-            .replace(/^```\s*/, '')
-            // Clean up extra whitespace
-            .trim();
-            
-        return cleanHtml;
-    }
-
-    async createBlogPost(blogId: number, contentData: any, published: boolean, topic: string) {
-        const postStart = Date.now();
-        console.log(`\n📝 BLOG POST CREATION STARTED`);
-        console.log(`🎯 Topic: "${topic}"`);
-        console.log(`📰 Title: "${contentData.title || topic}"`);
-        console.log(`🔢 Blog ID: ${blogId}`);
-        console.log(`📢 Published: ${published}`);
-        
+    async integrateProducts(contentData: any, template?: ProductCardTemplate, chosen?: ShopifyProduct[]): Promise<{ html: string; products: ShopifyProduct[] }> {
         // 1. Sanitize HTML content to remove unnecessary elements
         console.log(`🧹 Sanitizing HTML content...`);
         const sanitizeStart = Date.now();
-        let htmlContent = this.sanitizeHtml(contentData.content);
-        const contentLength = htmlContent.length;
+        const sanitized = sanitizeArticleHtml(contentData.content);
+        const contentLength = sanitized.length;
         console.log(`✅ HTML sanitized: ${contentLength} characters (${Date.now() - sanitizeStart}ms)`);
+        const faqIndex = sanitized.search(/<section class="faq"/);
+        let htmlContent = faqIndex >= 0 ? sanitized.substring(0, faqIndex) : sanitized;
+        const faq = faqIndex >= 0 ? sanitized.substring(faqIndex) : '';
 
-        // 2. Add product ad contextually using AI
-        console.log(`🛍️ Finding relevant products...`);
+        // 2. Add product cards between sections
+        const cards = this.site.productCards;
+        console.log(`🛍️ ${chosen ? 'Reusing' : 'Finding'} relevant products...`);
         const productStart = Date.now();
-        const products = await this.productIntegrator.findRelevantProducts(contentData.keyword, htmlContent.substring(0, 500), 1);
+        const products = chosen ?? (await this.productIntegrator.findRelevantProducts(contentData.keyword, htmlContent.substring(0, 500), cards.maxProducts));
         if (products.length > 0) {
             console.log(`✅ Found ${products.length} relevant products (${Date.now() - productStart}ms)`);
             console.log(`🔗 Integrating product placements...`);
             const integrationStart = Date.now();
-            htmlContent = await this.productIntegrator.generateContextualProductPlacement(htmlContent, products);
-            console.log(`✅ Products integrated (${Date.now() - integrationStart}ms)`);
+            const placed = await this.productIntegrator.placeProducts(htmlContent, products, {
+                template: template || cards.template,
+                minSectionGap: cards.minSectionGap,
+            });
+            htmlContent = placed.html;
+            console.log(`✅ Products integrated: ${placed.placements.map((p) => `slot ${p.slot} (${p.source})`).join(', ')} (${Date.now() - integrationStart}ms)`);
         } else {
             console.warn(`⚠️ No relevant products found for keyword: ${contentData.keyword} (${Date.now() - productStart}ms)`);
         }
 
-        // 3. Generate and upload featured image
-        let featuredImageUrl: string | undefined;
+        return { html: `${htmlContent}${faq}`, products };
+    }
+
+    /**
+     * Generates the featured image and uploads it to Shopify.
+     * @returns The hosted image URL.
+     */
+    async createFeaturedImage(topic: string, contentData: any): Promise<{ url: string; alt: string }> {
+        const imageStart = Date.now();
+        const title = contentData.title || topic;
+        const imageData = await this.generateFeaturedImage(topic, title);
+        const alt = await this.generateImageAltText(topic, title);
+        const featuredImageUrl = await this.hostImage(imageData, `blog-${contentData.handle || this.createHandle(topic)}`, alt);
+        console.log(`✅ Featured image complete: ${featuredImageUrl} (${Date.now() - imageStart}ms)`);
+        return { url: featuredImageUrl, alt };
+    }
+
+    /**
+     * Uploads a generated image to Shopify Files, falling back to the R2 bucket when configured.
+     * @returns The hosted image URL.
+     */
+    private async hostImage(imageData: ArrayBuffer, baseName: string, alt: string): Promise<string> {
+        const { mimeType, extension } = detectImageType(imageData);
+        const filename = `${baseName}-${Date.now()}.${extension}`;
+
+        try {
+            return await this.shopify.uploadImage(imageData, filename, mimeType, alt);
+        } catch (error: any) {
+            const publicUrl = this.site.r2PublicUrl;
+            if (!this.env.IMAGES_BUCKET || !publicUrl) {
+                throw error;
+            }
+            console.warn(`⚠️ Shopify Files upload failed, storing image in R2 instead: ${error.message}`);
+            return storeImageInR2(this.env.IMAGES_BUCKET, publicUrl, `${this.name}/${filename}`, imageData, mimeType);
+        }
+    }
+
+    /**
+     * Replaces the writer's image placeholders with library images or newly generated and hosted ones.
+     * Any image that can't be produced is removed rather than left broken.
+     */
+    async createBodyImages(html: string, contentData: any): Promise<string> {
+        const { images } = this.site;
+        const handle = contentData.handle || this.createHandle(contentData.keyword || 'article');
+        const { palette } = IMAGE_STYLE_PRESETS[images.style];
+        const { model } = this.llm.forStage('images');
+
+        const result = await resolveBodyImages(html, images.bodyImages, async (prompt, alt, index) => {
+            const libraryImage = matchLibraryImage(prompt, images.library);
+            if (libraryImage) {
+                console.log(`🖼️ Body image ${index + 1}: using library image ${libraryImage.url}`);
+                return libraryImage.url;
+            }
+            console.log(`🎨 Body image ${index + 1}: generating with ${model}`);
+            const imageData = await this.llm.image(buildImagePrompt(prompt, images.style, images.brandNotes), '1792x1024', palette);
+            return this.hostImage(imageData, `${handle}-body-${index + 1}`, alt);
+        });
+
+        console.log(`🖼️ Body images: ${result.resolved} placed, ${result.removed} removed`);
+        return result.html;
+    }
+
+    /**
+     * Writes short, descriptive alt text for the featured image.
+     */
+    private async generateImageAltText(topic: string, title: string): Promise<string> {
         try {
-            const imageStart = Date.now();
-            const imageData = await this.generateFeaturedImage(topic, contentData.title || topic);
-            const filename = `blog-${contentData.handle || this.createHandle(topic)}-${Date.now()}.png`;
-            featuredImageUrl = await this.shopify.uploadImage(imageData, filename);
-            console.log(`✅ Featured image complete: ${featuredImageUrl} (${Date.now() - imageStart}ms)`);
-        } catch (error) {
-            console.error(`⚠️ Featured image failed, continuing without image:`, error.message);
-            // Continue without image rather than failing the whole post
+            const alt = await this.llm.text('prompts', [
+                { role: 'system', content: 'You write concise, descriptive image alt text for accessibility and SEO. Respond with the alt text only, under 125 characters, without quotes.' },
+                { role: 'user', content: `Featured image for a ${this.site.niche} blog post titled "${title}" about "${topic}".` },
+            ], { maxTokens: 60, temperature: 0.3 });
+            const cleaned = alt.trim().replace(/^["']|["']$/g, '');
+            if (cleaned) {
+                return cleaned.substring(0, 125);
+            }
+        } catch (e: any) {
+            console.warn(`⚠️ Alt text generation failed, using the title: ${e.message}`);
         }
+        return title.substring(0, 125);
+    }
 
-        // 4. Prepare article payload
+    async createBlogPost(blogId: number, contentData: ArticleContent, htmlContent: string, featuredImageUrl: string | undefined, published: boolean, topic: string, featuredImageAlt?: string, quality?: QualityReport, existing?: { blogId: number; article: ShopifyArticle }) {
+        const postStart = Date.now();
+        if (existing) {
+            // A refresh keeps the existing post's blog and URL
+            blogId = existing.blogId;
+            contentData = { ...contentData, handle: existing.article.handle };
+        }
+        console.log(`\n📝 BLOG POST CREATION STARTED`);
+        console.log(`🎯 Topic: "${topic}"`);
+        console.log(`📰 Title: "${contentData.title}"`);
+        console.log(`🔢 Blog ID: ${blogId}`);
+        console.log(`📢 Published: ${existing ? 'unchanged (refresh)' : published}`);
+
+        // 1. Build and validate the structured data
+        console.log(`🧩 Building structured data...`);
+        const site = this.site;
+        const blog = await this.shopify.getBlog(blogId).catch((e) => {
+            console.warn(`⚠️ Could not load blog ${blogId}, using default breadcrumbs: ${e.message}`);
+            return undefined;
+        });
+        const blogHandle = blog?.handle || 'articles';
+        const articleUrl = this.getArticleUrl(contentData.handle, blogHandle);
+        const structuredData = renderStructuredData({
+            headline: contentData.title,
+            description: contentData.meta_description,
+            url: articleUrl,
+            authorName: contentData.author_persona?.name || site.brandName,
+            publisherName: site.brandName,
+            publisherUrl: site.domain,
+            publisherLogoUrl: site.logoUrl,
+            imageUrl: featuredImageUrl,
+            datePublished: new Date().toISOString(),
+            tags: contentData.tags,
+            faqs: contentData.faq,
+            breadcrumbs: [
+                { name: 'Home', url: site.domain },
+                { name: blog?.title || 'Blog', url: `${site.domain}/blogs/${blogHandle}` },
+                { name: contentData.title, url: articleUrl },
+            ],
+        });
+
+        // 2. Prepare article payload
         console.log(`📦 Preparing article payload...`);
+        const metafields = [...seoMetafields(contentData.title, contentData.meta_description), ...(quality ? [qualityMetafield(quality)] : [])];
         const articlePayload = {
-            title: contentData.title || topic, // Fallback to topic if title is missing
-            body_html: htmlContent,
-            summary_html: contentData.summary || contentData.meta_description || 'Discover the power of pheromones with Royal Pheromones.',
-            handle: contentData.handle || this.createHandle(topic), // Clean URL slug
-            tags: Array.isArray(contentData.tags) ? contentData.tags.join(', ') : (contentData.tags || ''),
-            published
+            title: contentData.title,
+            body_html: `${htmlContent}\n${structuredData}`,
+            summary_html: contentData.summary,
+            handle: contentData.handle,
+            tags: contentData.tags.join(', '),
+            // A refresh keeps the existing post's published state, its metafields are set separately below
+            ...(existing ? {} : { metafields, published }),
         };
         console.log(`📋 Article details:`);
         console.log(`   • Handle: ${articlePayload.handle}`);
         console.log(`   • Content length: ${htmlContent.length} chars`);
         console.log(`   • Tags: ${articlePayload.tags}`);
         console.log(`   • Has featured image: ${!!featuredImageUrl}`);
+        if (quality) {
+            console.log(`   • Quality score: ${quality.score}/100`);
+        }
 
-        // 5. Create blog post with featured image
-        console.log(`🚀 Creating Shopify blog post...`);
+        // 3. Create blog post with featured image, or rewrite the existing one
+        console.log(`🚀 ${existing ? 'Updating' : 'Creating'} Shopify blog post...`);
         const shopifyStart = Date.now();
-        const article = await this.shopify.createBlogPostWithImage(blogId, articlePayload, featuredImageUrl);
-        console.log(`✅ Blog post created in Shopify (${Date.now() - shopifyStart}ms)`);
+        const article = existing
+            ? await this.shopify.updateArticle(blogId, existing.article.id, {
+                  ...articlePayload,
+                  image: featuredImageUrl ? { src: featuredImageUrl, alt: featuredImageAlt } : undefined,
+              })
+            : await this.shopify.createBlogPostWithImage(blogId, articlePayload, featuredImageUrl, featuredImageAlt);
+        if (existing) {
+            // The REST update can't overwrite existing metafields, so the SEO title and description go through metafieldsSet
+            await this.shopify.setArticleMetafields(existing.article.id, metafields);
+        }
+        console.log(`✅ Blog post ${existing ? 'updated' : 'created'} in Shopify (${Date.now() - shopifyStart}ms)`);
         console.log(`🔗 Article ID: ${article?.id}`);
-        console.log(`🌐 Article URL: https://royalpheromones.com/blogs/articles/${articlePayload.handle}`);
+        console.log(`🌐 Article URL: ${articleUrl}`);
         
-        // 6. Mark keyword as used with the new article URL
+        // 4. Mark keyword as used with the new article URL
         if (article && article.id && contentData.keyword) {
             console.log(`📊 Marking keyword as used...`);
             const keywordStart = Date.now();
-            const articleUrl = `https://royalpheromones.com/blogs/articles/${article.handle}`;
-            await this.keywordManager.markKeywordUsed(contentData.keyword, article.id.toString(), articleUrl);
+            await this.keywordManager.markKeywordUsed(contentData.keyword, article.id.toString(), this.getArticleUrl(article.handle, blogHandle));
             console.log(`✅ Keyword marked as used (${Date.now() - keywordStart}ms)`);
         }
         
@@ -513,7 +1421,7 @@ ${JSON.stringify(internalLinks)}
      * Generates a contextual user prompt for a specific keyword
      */
     private async generateUserPromptForKeyword(keyword: string, topic: string, niche: string): Promise<string> {
-        const systemPrompt = `You are a content strategy expert for Royal Pheromones. Generate a concise, specific user prompt (1-2 sentences) that will guide the AI writer to create the most effective blog post for this keyword.
+        const systemPrompt = `You are a content strategy expert for ${this.site.brandName}. Generate a concise, specific user prompt (1-2 sentences) that will guide the AI writer to create the most effective blog post for this keyword.
 
 Focus on:
 - What angle/approach to take
@@ -524,56 +1432,50 @@ Focus on:
 
 Keep prompts under 150 characters to be practical for CSV processing.`;
 
-        const response = await this.openai.chat.completions.create({
-            model: 'gpt-4.1-mini',
-            messages: [
-                { role: 'system', content: systemPrompt },
-                { role: 'user', content: `Generate a user prompt for keyword: "${keyword}" in topic: "${topic}" for ${niche} niche` }
-            ],
-            max_tokens: 100,
-            temperature: 0.7
-        });
+        const response = await this.llm.text('prompts', [
+            { role: 'system', content: systemPrompt },
+            { role: 'user', content: `Generate a user prompt for keyword: "${keyword}" in topic: "${topic}" for ${niche} niche` }
+        ], { maxTokens: 100, temperature: 0.7 });
         
-        return response.choices[0].message.content?.trim() || `Focus on practical advice and product recommendations for ${keyword}`;
+        return response.trim() || `Focus on practical advice and product recommendations for ${keyword}`;
     }
     
     /**
-     * Filters out keywords that are already covered by existing content in vectorize
+     * Filters out keywords that are already covered by existing blog posts, either by name in the
+     * content inventory or by near-identical meaning in Vectorize.
      */
     private async filterUnusedKeywords(keywords: any[]): Promise<any[]> {
         const unusedKeywords = [];
         const similarityThreshold = 0.95; // Very high similarity means exact duplicate (lowered from 0.8)
+        const existingKeywords = new Set((await this.contentInventory.getKeywords('blog')).map(keywordKey));
         
         for (const keywordObj of keywords) {
             const keyword = keywordObj.keyword;
+            const keywordLower = keyword.toLowerCase();
             
-            // Generate embedding for the keyword
-            const embeddingResponse = await this.env.AI.run('@cf/baai/bge-base-en-v1.5', {
-                text: [keyword]
-            });
-            const keywordEmbedding = embeddingResponse.data[0];
-            
-            // Query vectorize for similar content
-            const similarContent = await this.env.VECTORIZE_INDEX.query(keywordEmbedding, { 
-                topK: 5,
-                filter: { contentType: { $in: ['blog'] } } // Only check against existing blog posts
-            });
-            
-            // Check if any existing content is very similar to this keyword
-            const hasVerySimilarContent = similarContent.matches.some(match => 
-                match.score > similarityThreshold
-            );
+            // Check exact keyword match in titles and primary keywords
+            const hasExactMatch = existingKeywords.has(keywordKey(keyword));
             
-            // Also check exact keyword match in titles and primary keywords
-            const hasExactMatch = similarContent.matches.some(match => {
-                const title = match.vector.metadata?.title?.toLowerCase() || '';
-                const primaryKeyword = match.vector.metadata?.primaryKeyword?.toLowerCase() || '';
-                const keywordLower = keyword.toLowerCase();
+            let hasVerySimilarContent = false;
+            if (!hasExactMatch) {
+                // Generate embedding for the keyword
+                const [keywordEmbedding] = await this.llm.embed([keyword]);
                 
-                return title.includes(keywordLower) || 
-                       primaryKeyword.includes(keywordLower) ||
-                       keywordLower.includes(primaryKeyword);
-            });
+                // Query vectorize for similar content
+                const similarContent = await this.env.VECTORIZE_INDEX.query(keywordEmbedding, { 
+                    topK: 5,
+                    namespace: this.site.vectorizeNamespace,
+                    returnMetadata: 'all',
+                    filter: { contentType: 'blog' } // Only check against existing blog posts
+                });
+                
+                // Very similar content, or one of these closest posts already targets the keyword in its title or primary keyword
+                hasVerySimilarContent = similarContent.matches.some((match) => {
+                    const title = String(match.metadata?.title ?? '').toLowerCase();
+                    const primaryKeyword = String(match.metadata?.primaryKeyword ?? '').toLowerCase();
+                    return match.score > similarityThreshold || title.includes(keywordLower) || (!!primaryKeyword && (primaryKeyword.includes(keywordLower) || keywordLower.includes(primaryKeyword)));
+                });
+            }
             
             // Keep keyword if it's not covered by existing content
             if (!hasVerySimilarContent && !hasExactMatch) {
@@ -587,29 +1489,10 @@ Keep prompts under 150 characters to be practical for CSV processing.`;
     }
     
     /**
-     * Gets all existing content keywords from vectorize to avoid regenerating similar content
+     * Gets the keywords of all existing posts and tracked keywords, to avoid regenerating similar content
      */
     private async getExistingContentKeywords(): Promise<string[]> {
-        // Query vectorize to get a sample of existing content
-        const sampleQuery = await this.env.VECTORIZE_INDEX.query(
-            new Array(1536).fill(0), // Dummy embedding to get random results
-            { 
-                topK: 500, // Get a large sample of existing content
-                filter: { contentType: { $in: ['blog'] } }
-            }
-        );
-        
-        const existingKeywords: string[] = [];
-        
-        for (const match of sampleQuery.matches) {
-            const metadata = match.vector.metadata;
-            if (metadata?.title) {
-                existingKeywords.push(metadata.title);
-            }
-            if (metadata?.primaryKeyword) {
-                existingKeywords.push(metadata.primaryKeyword);
-            }
-        }
+        const existingKeywords = await this.contentInventory.getKeywords('blog');
         
         // Also get from our SQL database if any keywords were tracked there
         try {
@@ -624,60 +1507,32 @@ Keep prompts under 150 characters to be practical for CSV processing.`;
     }
 
     /**
-     * Generates a featured image using DALL-E 3 for the blog post
+     * Generates a featured image with the configured image model for the blog post
      */
     private async generateFeaturedImage(topic: string, title: string): Promise<ArrayBuffer> {
-        console.log(`🎨 DALL-E 3 IMAGE GENERATION STARTED`);
+        const { model } = this.llm.forStage('images');
+        console.log(`🎨 IMAGE GENERATION STARTED (${model})`);
         console.log(`📷 Topic: "${topic}"`);
         console.log(`📝 Title: "${title}"`);
         
-        const imagePrompt = `Create a professional, modern featured image for a blog post about "${topic}". 
-
-Style: Clean, sophisticated design with:
-- Professional background (gradient, subtle texture, or solid color)
-- Bold, readable text overlay with the title: "${title}"
-- Relevant visual elements (bottles, scientific imagery, or abstract graphics related to pheromones/attraction)
-- Brand colors: deep blues, purples, or elegant neutrals
-- High-quality, blog-worthy aesthetic
-- 16:9 aspect ratio, suitable for social media sharing
-
-The image should look professional and trustworthy, suitable for a science-based blog about pheromones and attraction.`;
+        const { images, niche } = this.site;
+        const imagePrompt = buildImagePrompt(
+            `Featured image for a blog post titled "${title}" about "${topic}", with visual elements related to ${niche}. Wide 16:9 composition suitable for social media sharing.`,
+            images.style,
+            images.brandNotes
+        );
 
-        console.log(`🤖 Sending request to DALL-E 3...`);
+        console.log(`🤖 Sending request to ${model}...`);
         console.log(`📏 Size: 1792x1024 (16:9 ratio)`);
-        console.log(`⚡ Quality: standard`);
 
         try {
             const generateStart = Date.now();
-            const response = await this.openai.images.generate({
-                model: "dall-e-3",
-                prompt: imagePrompt,
-                n: 1,
-                size: "1792x1024", // 16:9 aspect ratio
-                quality: "standard"
-            });
-            console.log(`✅ DALL-E 3 generation complete (${Date.now() - generateStart}ms)`);
-
-            const imageUrl = response.data[0].url;
-            if (!imageUrl) {
-                throw new Error('No image URL returned from DALL-E 3');
-            }
-            console.log(`🔗 Generated image URL: ${imageUrl.substring(0, 50)}...`);
-
-            // Download the image
-            console.log(`⬇️ Downloading generated image...`);
-            const downloadStart = Date.now();
-            const imageResponse = await fetch(imageUrl);
-            if (!imageResponse.ok) {
-                throw new Error(`Failed to download generated image: ${imageResponse.status} ${imageResponse.statusText}`);
-            }
-            
-            const imageBuffer = await imageResponse.arrayBuffer();
+            const imageBuffer = await this.llm.image(imagePrompt, '1792x1024', IMAGE_STYLE_PRESETS[images.style].palette); // 16:9 aspect ratio
             const imageSizeKB = Math.round(imageBuffer.byteLength / 1024);
-            console.log(`✅ Image downloaded: ${imageSizeKB}KB (${Date.now() - downloadStart}ms)`);
+            console.log(`✅ Image generation complete: ${imageSizeKB}KB (${Date.now() - generateStart}ms)`);
 
             return imageBuffer;
-        } catch (error) {
+        } catch (error: any) {
             console.error(`❌ IMAGE GENERATION FAILED:`, error);
             console.error(`   • Topic: "${topic}"`);
             console.error(`   • Title: "${title}"`);
@@ -688,12 +1543,10 @@ The image should look professional and trustworthy, suitable for a science-based
     }
 }
 
-import { syncPosts } from './content-sync';
-
 // --- Worker Entrypoint ---
 
 export default {
-  async fetch(request: Request, env: Env, ctx: any): Promise<Response> {
+  async fetch(request: Request, env: Env): Promise<Response> {
     console.log(`Main worker received request: ${request.method} ${request.url}`);
 
     // --- Authentication Check ---
@@ -707,17 +1560,15 @@ export default {
     }
     // --- End Authentication Check ---
 
+    // Each site runs in its own agent instance, named by its site id
     const url = new URL(request.url);
-    if (url.pathname === '/sync-posts' && request.method === 'POST') {
-        // Pass the request to be handled in the background
-        ctx.waitUntil(syncPosts(env));
-        return new Response(JSON.stringify({ success: true, message: 'Content sync process started in the background.' }), {
-            headers: { 'Content-Type': 'application/json' },
-        });
+    const siteId = request.headers.get('X-Site-Id') || url.searchParams.get('site') || env.DEFAULT_SITE_ID || DEFAULT_SITE_ID;
+    if (!/^[a-z0-9_-]{1,64}$/i.test(siteId)) {
+      return new Response('Invalid site id', { status: 400 });
     }
 
     try {
-      const agent = await getAgentByName<Env, ShopifyAutobloggerAgent>(env.ShopifyAutobloggerAgent, 'singleton');
+      const agent = await getAgentByName<Env, ShopifyAutobloggerAgent>(env.ShopifyAutobloggerAgent, siteId);
       return await agent.fetch(request);
     } catch (e: any) {
       console.error("Error in main fetch handler:", e);
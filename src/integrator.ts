@@ -1,67 +1,176 @@
 
-import { OpenAI } from 'openai';
-import { ShopifyClient, ShopifyProduct } from './shopify';
+import type { ModelRouter } from './llm';
+import { type ProductCardTemplate, renderComparisonTable, renderInlineCard, renderSidebarCta } from './product-cards';
+import type { ProductCatalog } from './product-catalog';
+import type { ShopifyProduct } from './shopify';
+
+// Number of vector search candidates the model reranks
+const RERANK_CANDIDATES = 10;
+
+export type PlacementOptions = {
+  template: ProductCardTemplate;
+  // Minimum number of sections between two cards
+  minSectionGap: number;
+};
+
+export type ProductPlacement = {
+  productIds: number[];
+  slot: number;
+  source: 'model' | 'heuristic';
+};
+
+/**
+ * Splits article HTML into the introduction followed by one chunk per H2 section.
+ * Joining the chunks gives back the original HTML.
+ */
+export function splitSections(html: string): string[] {
+  return html.split(/(?=<h2\b)/i);
+}
+
+function headingText(section: string): string {
+  const match = section.match(/<h2[^>]*>([\s\S]*?)<\/h2>/i);
+  return match ? match[1].replace(/<[^>]+>/g, '').trim() : '';
+}
 
 export class ProductIntegrator {
-  private shopifyClient: ShopifyClient;
-  private openai: OpenAI;
+  private catalog: ProductCatalog;
+  private llm: ModelRouter;
+  private storeDomain: string;
 
-  constructor(shopifyClient: ShopifyClient, openai: OpenAI) {
-    this.shopifyClient = shopifyClient;
-    this.openai = openai;
+  constructor(catalog: ProductCatalog, llm: ModelRouter, storeDomain: string) {
+    this.catalog = catalog;
+    this.llm = llm;
+    this.storeDomain = storeDomain;
   }
 
+  /**
+   * Finds the products that fit an article best: a vector search over the cached catalog picks
+   * the candidates, and the model only reranks those when there are more than needed.
+   */
   async findRelevantProducts(keyword: string, context: string, maxProducts: number = 1): Promise<ShopifyProduct[]> {
-    const products = await this.shopifyClient.getProducts();
-    const productList = products.map((p) => ({ id: p.id, title: p.title, handle: p.handle, product_type: p.product_type }));
-
-    const prompt = `Given the keyword "${keyword}" and the context "${context}", which of the following products are most relevant? Return a JSON object with a "product_ids" key containing an array of product IDs. Products: ${JSON.stringify(productList)}`;
+    await this.catalog.refresh();
+    const candidates = await this.catalog.findCandidates(`${keyword}\n${context}`, RERANK_CANDIDATES);
+    if (candidates.length <= maxProducts) {
+      return candidates;
+    }
 
-    const response = await this.openai.chat.completions.create({
-      model: 'gpt-4.1-mini',
-      messages: [{ role: 'user', content: prompt }],
-      response_format: { type: 'json_object' },
-    });
+    const productList = candidates.map((p) => ({ id: p.id, title: p.title, product_type: p.product_type, tags: p.tags }));
+    const prompt = `Given the keyword "${keyword}" and the context "${context}", rank the following products by how relevant they are to the article. Return a JSON object with a "product_ids" key containing an array of the ${maxProducts} most relevant product IDs, most relevant first. Products: ${JSON.stringify(productList)}`;
 
     try {
-      const relevantIds = JSON.parse(response.choices[0].message.content || '{}').product_ids || [];
-      return products.filter((p) => relevantIds.includes(p.id)).slice(0, maxProducts);
+      const response = await this.llm.chatJSON('products', [{ role: 'user', content: prompt }], { temperature: 0 });
+      const rankedIds: number[] = (response.product_ids || []).map(Number);
+      const reranked = rankedIds.map((id) => candidates.find((p) => p.id === id)).filter((p): p is ShopifyProduct => !!p);
+      // Keep vector order for anything the model left out
+      const rest = candidates.filter((p) => !reranked.includes(p));
+      return [...reranked, ...rest].slice(0, maxProducts);
     } catch (e) {
-      console.error('Error parsing product IDs from OpenAI response:', e);
-      return [];
+      console.error('Error reranking products, using vector order:', e);
+      return candidates.slice(0, maxProducts);
     }
   }
 
-  async generateContextualProductPlacement(content: string, products: ShopifyProduct[]): Promise<string> {
-    const product = products[0]; // We'll just use the most relevant product for the ad
-    const adHtml = `
-<div style="border: 1px solid #e5e7eb; border-radius: 8px; padding: 1.5rem; margin: 2rem 0; display: flex; align-items: center; gap: 1.5rem; flex-wrap: wrap;">
-  <img src="${product.image?.src}" alt="${product.title}" style="width: 150px; height: 150px; object-fit: cover; border-radius: 8px;">
-  <div style="flex: 1; min-width: 200px;">
-    <h3 style="margin-top: 0;">${product.title}</h3>
-    <p>Unlock your potential with our top-rated formula.</p>
-    <p style="font-size: 1.5rem; font-weight: bold; margin: 0.5rem 0;">${product.variants[0]?.price}</p>
-    <a href="https://royalpheromones.com/products/${product.handle}" style="display: inline-block; background-color: #2563eb; color: white; padding: 0.75rem 1.5rem; text-decoration: none; border-radius: 8px; font-weight: bold;">Shop Now</a>
-  </div>
-</div>
-`;
-
-    const prompt = `You are an expert content editor. Your task is to seamlessly and cohesively insert the following HTML ad block into the middle of the blog post. Find the most natural break between sections for the ad.
-
-**HTML Ad Block:**
-${adHtml}
-
-**Blog Content (Markdown):**
-${content}
-
-Return the full, modified blog post as a single Markdown string with the HTML ad block inserted.`;
-
-    const response = await this.openai.chat.completions.create({
-      model: 'gpt-4.1-mini',
-      messages: [{ role: 'user', content: prompt }],
+  /**
+   * Inserts product cards between sections of the article without rewriting any of its content.
+   * The model only picks the slots, which are then checked against the spacing rules and
+   * filled in with evenly spaced slots when missing or invalid.
+   */
+  async placeProducts(html: string, products: ShopifyProduct[], options: PlacementOptions): Promise<{ html: string; placements: ProductPlacement[] }> {
+    const sections = splitSections(html);
+    // Slot n inserts after sections[n - 1]; skip the slot right after the introduction when there is room
+    const firstSlot = sections.length > 2 ? 2 : 1;
+    const slots = Array.from({ length: Math.max(sections.length - firstSlot, 1) }, (_, i) => Math.min(firstSlot + i, sections.length));
+
+    // A comparison table shows every product at once, the other templates get a card per product
+    const groups = options.template === 'comparison' ? [products] : products.map((p) => [p]);
+    const suggested = await this.suggestSlots(sections, slots, groups);
+
+    const placements: ProductPlacement[] = [];
+    const fitsGap = (slot: number) => placements.every((p) => Math.abs(p.slot - slot) >= options.minSectionGap);
+
+    groups.forEach((group, i) => {
+      const suggestion = suggested[i];
+      if (suggestion !== undefined && slots.includes(suggestion) && fitsGap(suggestion)) {
+        placements.push({ productIds: group.map((p) => p.id), slot: suggestion, source: 'model' });
+        return;
+      }
+      // Evenly spaced fallback, then the first slot that still respects the gap
+      const spread = groups.length > 1 ? Math.round((i * (slots.length - 1)) / (groups.length - 1)) : Math.floor((slots.length - 1) / 2);
+      const even = slots[spread];
+      const slot = fitsGap(even) ? even : slots.find(fitsGap);
+      if (slot !== undefined) {
+        placements.push({ productIds: group.map((p) => p.id), slot, source: 'heuristic' });
+      }
     });
 
-    return response.choices[0].message.content || content;
+    // Splice from the last slot backwards so earlier indexes stay valid
+    const output = [...sections];
+    for (const placement of [...placements].sort((a, b) => b.slot - a.slot)) {
+      const group = products.filter((p) => placement.productIds.includes(p.id));
+      const card = this.renderCard(group, options.template);
+
+      if (options.template === 'sidebar' && placement.slot < output.length) {
+        // Float the call to action beside the section text, right after its heading
+        const section = output[placement.slot];
+        const headingEnd = section.search(/<\/h2>/i);
+        output[placement.slot] = headingEnd === -1 ? `${card}\n${section}` : `${section.slice(0, headingEnd + 5)}\n${card}${section.slice(headingEnd + 5)}`;
+      } else {
+        output.splice(placement.slot, 0, `${card}\n`);
+      }
+    }
+
+    return { html: output.join(''), placements };
   }
 
+  private renderCard(products: ShopifyProduct[], template: ProductCardTemplate): string {
+    switch (template) {
+      case 'comparison':
+        return renderComparisonTable(products, this.storeDomain);
+      case 'sidebar':
+        return renderSidebarCta(products[0], this.storeDomain);
+      default:
+        return renderInlineCard(products[0], this.storeDomain);
+    }
+  }
+
+  /**
+   * Asks the model which slot suits each product group, given only the article outline.
+   * Returns one slot per group, undefined where the model had no usable answer.
+   */
+  private async suggestSlots(sections: string[], slots: number[], groups: ShopifyProduct[][]): Promise<(number | undefined)[]> {
+    if (slots.length <= 1) {
+      return groups.map(() => slots[0]);
+    }
+
+    const outline = slots
+      .map((slot) => {
+        const before = slot === 1 ? 'the introduction' : `"${headingText(sections[slot - 1])}"`;
+        const after = slot < sections.length ? `, before "${headingText(sections[slot])}"` : ' at the end';
+        return `[${slot}] after ${before}${after}`;
+      })
+      .join('\n');
+    const items = groups.map((group, i) => `${i}: ${group.map((p) => p.title).join(', ')}`).join('\n');
+
+    const prompt = `You are placing product recommendations in a blog post. Choose the insertion point where each item below fits the surrounding sections most naturally. Use different insertion points for different items.
+
+**Insertion points:**
+${outline}
+
+**Items:**
+${items}
+
+Return a JSON object with a "placements" key containing an array of objects with "item" (the item number) and "slot" (the insertion point number).`;
+
+    try {
+      const response = await this.llm.chatJSON('products', [{ role: 'user', content: prompt }], { temperature: 0 });
+      const placements: Array<{ item: number; slot: number }> = Array.isArray(response.placements) ? response.placements : [];
+      return groups.map((_, i) => {
+        const slot = Number(placements.find((p) => Number(p.item) === i)?.slot);
+        return Number.isInteger(slot) ? slot : undefined;
+      });
+    } catch (e) {
+      console.error('Error choosing product slots, falling back to even spacing:', e);
+      return groups.map(() => undefined);
+    }
   }
+}
@@ -0,0 +1,242 @@
+import { z } from 'zod';
+import type { ShopifyAutobloggerAgent } from './index';
+import type { ArticleContent } from './article';
+import type { BackfillProposal } from './backfill';
+import type { CannibalizationResult } from './cannibalization';
+import type { FaqItem } from './faq';
+import type { InternalLink, LinkReport } from './link-audit';
+import type { QualityReport } from './quality';
+import type { ResearchResult } from './researcher';
+import type { ShopifyArticle, ShopifyProduct } from './shopify';
+import { PRODUCT_CARD_TEMPLATES } from './product-cards';
+
+// Quality runs after the FAQ and product cards are added, so the scored HTML is the one that gets published
+export const JOB_STAGES = ['research', 'writing', 'cannibalization', 'links', 'faq', 'products', 'quality', 'image', 'publish', 'backfill'] as const;
+
+export type JobStage = (typeof JOB_STAGES)[number];
+
+// Zod schema for the parameters accepted by POST /post
+export const jobParamsSchema = z.object({
+  blogId: z.number(),
+  topic: z.string().min(1),
+  style: z.string().default('informative'),
+  words: z.number().int().positive().default(1500),
+  research: z.enum(['quick', 'comprehensive', 'competitive']).default('comprehensive'),
+  publish: z.boolean().default(true),
+  userPrompt: z.string().optional(),
+  personaId: z.string().optional(),
+  // Overrides the site's product card template for this post
+  productTemplate: z.enum(PRODUCT_CARD_TEMPLATES).optional(),
+  // "auto" adds an FAQ unless the keyword's intent is transactional or navigational
+  faq: z.union([z.boolean(), z.literal('auto')]).default('auto'),
+});
+
+export type JobParams = z.infer<typeof jobParamsSchema>;
+export type JobParamsInput = z.input<typeof jobParamsSchema>;
+
+export type StageState = {
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+  started_at?: string;
+  finished_at?: string;
+  duration_ms?: number;
+  error?: string;
+};
+
+/**
+ * Intermediate outputs of each stage, persisted so a retry can resume from the failed stage.
+ */
+export type JobArtifacts = {
+  research?: ResearchResult;
+  internalLinks?: InternalLink[];
+  content?: ArticleContent;
+  cannibalization?: CannibalizationResult;
+  linkReport?: LinkReport;
+  quality?: QualityReport;
+  faq?: FaqItem[];
+  // Products chosen for the cards, reused when the post is revised
+  products?: ShopifyProduct[];
+  html?: string;
+  featuredImageUrl?: string;
+  featuredImageAlt?: string;
+  article?: ShopifyArticle;
+  backfill?: BackfillProposal[];
+};
+
+export type Job = {
+  id: string;
+  status: 'queued' | 'running' | 'completed' | 'failed';
+  current_stage: JobStage | null;
+  params: JobParams;
+  stages: Record<JobStage, StageState>;
+  artifacts: JobArtifacts;
+  error: string | null;
+  attempts: number;
+  created_at: string;
+  updated_at: string;
+};
+
+type JobRow = {
+  id: string;
+  status: Job['status'];
+  current_stage: JobStage | null;
+  params: string;
+  stages: string;
+  artifacts: string;
+  error: string | null;
+  attempts: number;
+  created_at: string;
+  updated_at: string;
+};
+
+export class JobManager {
+  private agent: ShopifyAutobloggerAgent;
+
+  constructor(agent: ShopifyAutobloggerAgent) {
+    this.agent = agent;
+  }
+
+  async initSchema(): Promise<void> {
+    await this.agent.sql`
+      CREATE TABLE IF NOT EXISTS jobs (
+        id TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        current_stage TEXT,
+        params TEXT NOT NULL,
+        stages TEXT NOT NULL,
+        artifacts TEXT NOT NULL,
+        error TEXT,
+        attempts INTEGER DEFAULT 0,
+        created_at TEXT,
+        updated_at TEXT
+      );
+    `;
+  }
+
+  async createJob(input: JobParamsInput): Promise<Job> {
+    const params = jobParamsSchema.parse(input);
+    const now = new Date().toISOString();
+    const stages = Object.fromEntries(JOB_STAGES.map((stage) => [stage, { status: 'pending' }])) as Record<JobStage, StageState>;
+
+    const job: Job = {
+      id: crypto.randomUUID(),
+      status: 'queued',
+      current_stage: null,
+      params,
+      stages,
+      artifacts: {},
+      error: null,
+      attempts: 0,
+      created_at: now,
+      updated_at: now,
+    };
+
+    await this.agent.sql`
+      INSERT INTO jobs (id, status, current_stage, params, stages, artifacts, error, attempts, created_at, updated_at)
+      VALUES (${job.id}, ${job.status}, ${job.current_stage}, ${JSON.stringify(job.params)}, ${JSON.stringify(job.stages)}, ${JSON.stringify(job.artifacts)}, ${job.error}, ${job.attempts}, ${job.created_at}, ${job.updated_at});
+    `;
+    return job;
+  }
+
+  async getJob(id: string): Promise<Job | undefined> {
+    const rows = await this.agent.sql<JobRow>`SELECT * FROM jobs WHERE id = ${id};`;
+    return rows.length > 0 ? this.fromRow(rows[0]) : undefined;
+  }
+
+  async listJobs(limit: number = 20): Promise<Job[]> {
+    const rows = await this.agent.sql<JobRow>`
+      SELECT * FROM jobs
+      ORDER BY created_at DESC
+      LIMIT ${limit};
+    `;
+    return rows.map((row) => this.fromRow(row));
+  }
+
+  /**
+   * Jobs that haven't finished, oldest first. At startup these were cut off by an eviction or redeploy.
+   */
+  async listUnfinishedJobs(): Promise<Job[]> {
+    const rows = await this.agent.sql<JobRow>`
+      SELECT * FROM jobs
+      WHERE status IN ('queued', 'running')
+      ORDER BY created_at;
+    `;
+    return rows.map((row) => this.fromRow(row));
+  }
+
+  async save(job: Job): Promise<void> {
+    job.updated_at = new Date().toISOString();
+    await this.agent.sql`
+      UPDATE jobs
+      SET status = ${job.status}, current_stage = ${job.current_stage}, stages = ${JSON.stringify(job.stages)},
+          artifacts = ${JSON.stringify(job.artifacts)}, error = ${job.error}, attempts = ${job.attempts}, updated_at = ${job.updated_at}
+      WHERE id = ${job.id};
+    `;
+  }
+
+  async startStage(job: Job, stage: JobStage): Promise<void> {
+    job.status = 'running';
+    job.current_stage = stage;
+    job.stages[stage] = { status: 'running', started_at: new Date().toISOString() };
+    await this.save(job);
+  }
+
+  async finishStage(job: Job, stage: JobStage, status: 'completed' | 'skipped' | 'failed' = 'completed', error?: string): Promise<void> {
+    const state = job.stages[stage];
+    const finishedAt = new Date();
+    job.stages[stage] = {
+      ...state,
+      status,
+      finished_at: finishedAt.toISOString(),
+      duration_ms: state.started_at ? finishedAt.getTime() - new Date(state.started_at).getTime() : undefined,
+      error,
+    };
+    await this.save(job);
+  }
+
+  async failStage(job: Job, stage: JobStage, error: string): Promise<void> {
+    job.status = 'failed';
+    job.error = `${stage} stage failed: ${error}`;
+    await this.finishStage(job, stage, 'failed', error);
+  }
+
+  async completeJob(job: Job): Promise<void> {
+    job.status = 'completed';
+    job.current_stage = null;
+    job.error = null;
+    await this.save(job);
+  }
+
+  /**
+   * Resets the failed stage (and everything after it) so the job resumes from where it stopped.
+   */
+  async prepareRetry(job: Job): Promise<Job> {
+    if (job.status !== 'failed') {
+      throw new Error(`Only failed jobs can be retried (job ${job.id} is ${job.status})`);
+    }
+
+    const failedIndex = JOB_STAGES.findIndex((stage) => job.stages[stage].status === 'failed');
+    for (const stage of JOB_STAGES.slice(Math.max(failedIndex, 0))) {
+      job.stages[stage] = { status: 'pending' };
+    }
+
+    job.status = 'queued';
+    job.error = null;
+    await this.save(job);
+    return job;
+  }
+
+  private fromRow(row: JobRow): Job {
+    const stages = JSON.parse(row.stages);
+    // Jobs stored before a stage was added have no entry for it
+    for (const stage of JOB_STAGES) {
+      stages[stage] ??= { status: 'pending' };
+    }
+    return {
+      ...row,
+      // Parsing fills in defaults for params added after the job was stored
+      params: jobParamsSchema.parse(JSON.parse(row.params)),
+      stages,
+      artifacts: JSON.parse(row.artifacts),
+    };
+  }
+}
@@ -1,7 +1,7 @@
 
 import { z } from 'zod';
-import { OpenAI } from 'openai';
-import { ShopifyAutobloggerAgent } from './index';
+import type { ModelRouter } from './llm';
+import type { ShopifyAutobloggerAgent } from './index';
 
 const keywordSchema = z.object({
   id: z.string(),
@@ -18,12 +18,46 @@ const keywordSchema = z.object({
 
 export type Keyword = z.infer<typeof keywordSchema>;
 
+// Zod schema for a keyword in an import file, CSV columns and JSON keys share the same names
+export const keywordImportSchema = z.object({
+  keyword: z.string().trim().min(1).transform((keyword) => keyword.replace(/\s+/g, ' ')),
+  priority_score: z.coerce.number().min(0).max(10).default(5),
+  intent: z.string().default(''),
+  difficulty: z.string().default(''),
+  content_angle: z.string().default(''),
+  // Extra instructions for the writer, passed to the job as its userPrompt
+  user_prompt: z.string().trim().optional(),
+  topic: z.string().trim().optional(),
+});
+
+export type KeywordImport = z.input<typeof keywordImportSchema>;
+
+export type KeywordImportResult = {
+  imported: number;
+  // Keywords already in the table or repeated in the file
+  duplicates: string[];
+  invalid: Array<{ row: number; errors: string[] }>;
+  // Every distinct valid keyword of the file, new or not, in file order
+  keywords: string[];
+};
+
+export type KeywordExportRow = Keyword & { user_prompt: string | null; topic: string | null };
+
+export const KEYWORD_EXPORT_COLUMNS = ['keyword', 'user_prompt', 'topic', 'priority_score', 'intent', 'difficulty', 'content_angle', 'status', 'article_url', 'created_date'];
+
+/**
+ * Key keywords are deduplicated on: case and whitespace differences don't make a new keyword.
+ */
+export function keywordKey(keyword: string): string {
+  return keyword.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
 export class KeywordManager {
-  private openai: OpenAI;
+  private llm: ModelRouter;
   private agent: ShopifyAutobloggerAgent;
 
-  constructor(openai: OpenAI, agent: ShopifyAutobloggerAgent) {
-    this.openai = openai;
+  constructor(llm: ModelRouter, agent: ShopifyAutobloggerAgent) {
+    this.llm = llm;
     this.agent = agent;
   }
 
@@ -42,18 +76,19 @@ export class KeywordManager {
         article_url TEXT
       );
     `;
+    await this.agent.sql`
+      CREATE TABLE IF NOT EXISTS keyword_prompts (
+        keyword_id TEXT PRIMARY KEY,
+        user_prompt TEXT,
+        topic TEXT
+      );
+    `;
   }
 
   async researchKeywords(topic: string, count: number, niche: string): Promise<Keyword[]> {
     const prompt = `Research ${count} keywords for the topic "${topic}" in the "${niche}" niche. For each keyword, provide a priority score (1-10), user intent, difficulty, and a content angle. Return as a JSON array of objects with keys: keyword, priority_score, intent, difficulty, content_angle.`;
 
-    const response = await this.openai.chat.completions.create({
-      model: 'gpt-4.1-mini',
-      messages: [{ role: 'user', content: prompt }],
-      response_format: { type: 'json_object' },
-    });
-
-    const keywordsData = JSON.parse(response.choices[0].message.content || '[]').keywords;
+    const keywordsData = (await this.llm.chatJSON('keywords', [{ role: 'user', content: prompt }])).keywords || [];
 
     const keywords: Keyword[] = keywordsData.map((kw: any) => ({
       ...kw,
@@ -91,6 +126,15 @@ export class KeywordManager {
     `;
   }
 
+  async getKeyword(keyword: string): Promise<Keyword | undefined> {
+    const rows = await this.agent.sql<Keyword>`
+      SELECT * FROM keywords
+      WHERE keyword = ${keyword}
+      LIMIT 1;
+    `;
+    return rows[0];
+  }
+
   async getUsedKeywords(): Promise<Keyword[]> {
     return this.agent.sql<Keyword[]>`
       SELECT * FROM keywords
@@ -139,13 +183,7 @@ Avoid exact duplicates but DO create content that can naturally reference and li
 
 For each keyword, provide a priority score (1-10 where 10 = high search volume + low competition), user intent, difficulty, and a content angle. Return as a JSON array of objects with keys: keyword, priority_score, intent, difficulty, content_angle.`;
 
-    const response = await this.openai.chat.completions.create({
-      model: 'gpt-4.1-mini',
-      messages: [{ role: 'user', content: prompt }],
-      response_format: { type: 'json_object' },
-    });
-
-    const keywordsData = JSON.parse(response.choices[0].message.content || '[]').keywords;
+    const keywordsData = (await this.llm.chatJSON('keywords', [{ role: 'user', content: prompt }])).keywords || [];
 
     const keywords: Keyword[] = keywordsData.map((kw: any) => ({
       ...kw,
@@ -157,6 +195,59 @@ For each keyword, provide a priority score (1-10 where 10 = high search volume +
     return keywords;
   }
 
+  /**
+   * Adds the valid, not yet known keywords of an import. Empty optional fields (as CSV leaves them) fall back to defaults.
+   */
+  async importKeywords(rows: Array<Record<string, unknown>>): Promise<KeywordImportResult> {
+    const known = new Set((await this.getAllKeywords()).map((kw) => keywordKey(kw.keyword)));
+    const seen = new Set<string>();
+    const result: KeywordImportResult = { imported: 0, duplicates: [], invalid: [], keywords: [] };
+
+    for (const [index, row] of rows.entries()) {
+      const cleaned = Object.fromEntries(Object.entries(row).filter(([, value]) => value !== '' && value !== null));
+      const parsed = keywordImportSchema.safeParse({ ...cleaned, user_prompt: cleaned.user_prompt ?? cleaned.userPrompt });
+      if (!parsed.success) {
+        result.invalid.push({ row: index + 1, errors: parsed.error.issues.map((issue) => `${issue.path.join('.') || 'row'}: ${issue.message}`) });
+        continue;
+      }
+
+      const entry = parsed.data;
+      const key = keywordKey(entry.keyword);
+      if (seen.has(key) || known.has(key)) {
+        result.duplicates.push(entry.keyword);
+        if (!seen.has(key)) result.keywords.push(entry.keyword);
+        seen.add(key);
+        continue;
+      }
+      seen.add(key);
+      result.keywords.push(entry.keyword);
+
+      const id = crypto.randomUUID();
+      await this.addKeywords([{ ...entry, id, status: 'new', created_date: new Date().toISOString() }]);
+      if (entry.user_prompt || entry.topic) {
+        await this.agent.sql`
+          INSERT INTO keyword_prompts (keyword_id, user_prompt, topic) VALUES (${id}, ${entry.user_prompt ?? null}, ${entry.topic ?? null});
+        `;
+      }
+      result.imported++;
+    }
+
+    console.log(`📥 Imported ${result.imported} keywords (${result.duplicates.length} duplicates, ${result.invalid.length} invalid)`);
+    return result;
+  }
+
+  /**
+   * Every keyword with its stored prompt and topic, optionally only those with the given status.
+   */
+  async exportKeywords(status?: Keyword['status']): Promise<KeywordExportRow[]> {
+    const rows = await this.agent.sql<KeywordExportRow>`
+      SELECT k.*, p.user_prompt, p.topic
+      FROM keywords k LEFT JOIN keyword_prompts p ON p.keyword_id = k.id
+      ORDER BY k.priority_score DESC, k.created_date;
+    `;
+    return status ? rows.filter((row) => row.status === status) : rows;
+  }
+
   async getKeywordStats(): Promise<any> {
     const total = await this.agent.sql`SELECT COUNT(*) as count FROM keywords;`;
     const newKeywords = await this.agent.sql`SELECT COUNT(*) as count FROM keywords WHERE status = 'new';`;
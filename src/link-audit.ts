@@ -0,0 +1,241 @@
+import type { ModelRouter } from './llm';
+
+/**
+ * A page of the site the writer is allowed to link to.
+ */
+export type InternalLink = {
+  url: string;
+  title: string;
+  primaryKeyword: string;
+  contentType: string;
+  score: number;
+  // Sections of the page that matched, for deep links
+  sections?: Array<{ heading: string; url: string; score: number }>;
+  // Set for the pillar page of the post's topic cluster, or the cluster posts of a pillar post
+  role?: 'pillar' | 'cluster';
+};
+
+export type LinkReport = {
+  total: number;
+  kept: number;
+  byContentType: Record<string, number>;
+  remapped: Array<{ from: string; to: string; anchor: string }>;
+  dropped: Array<{ url: string; anchor: string; reason: 'not_allowed' | 'duplicate' }>;
+  external: string[];
+};
+
+// Added to a page's best chunk score for each further matching chunk, up to MAX_EXTRA_CHUNKS
+const EXTRA_CHUNK_BONUS = 0.02;
+const MAX_EXTRA_CHUNKS = 3;
+const MAX_SECTIONS_PER_PAGE = 3;
+
+// Minimum similarity between an anchor and a candidate page for a hallucinated link to be remapped
+const REMAP_THRESHOLD = 0.5;
+
+const ANCHOR_REGEX = /<a\b([^>]*)>([\s\S]*?)<\/a>/gi;
+const HREF_REGEX = /\bhref\s*=\s*(["'])(.*?)\1/i;
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim();
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Groups chunk-level Vectorize matches into one link per page, scored by its best chunk plus a small
+ * bonus for every other chunk that matched, with the matching sections as deep-link candidates.
+ * Matches without a URL, title or primary keyword are ignored. Pages are ordered by score.
+ */
+export function aggregateChunkMatches(matches: Array<{ score: number; metadata?: Record<string, unknown> }>): InternalLink[] {
+  const pages = new Map<string, { link: InternalLink; scores: number[] }>();
+
+  for (const match of matches) {
+    const metadata = match.metadata ?? {};
+    const url = metadata.url as string | undefined;
+    if (!url || !metadata.title || !metadata.primaryKeyword || !metadata.contentType) continue;
+
+    let page = pages.get(url);
+    if (!page) {
+      page = {
+        link: {
+          url,
+          title: metadata.title as string,
+          primaryKeyword: metadata.primaryKeyword as string,
+          contentType: metadata.contentType as string,
+          score: 0,
+          sections: [],
+        },
+        scores: [],
+      };
+      pages.set(url, page);
+    }
+    page.scores.push(match.score);
+
+    const heading = metadata.section as string | undefined;
+    const anchorUrl = metadata.anchorUrl as string | undefined;
+    if (heading && anchorUrl && anchorUrl !== url && !page.link.sections!.some((s) => s.url === anchorUrl)) {
+      page.link.sections!.push({ heading, url: anchorUrl, score: match.score });
+    }
+  }
+
+  return [...pages.values()]
+    .map(({ link, scores }) => {
+      const [best, ...rest] = scores.sort((a, b) => b - a);
+      const sections = link.sections!.sort((a, b) => b.score - a.score).slice(0, MAX_SECTIONS_PER_PAGE);
+      return {
+        ...link,
+        score: Math.round((best + EXTRA_CHUNK_BONUS * Math.min(rest.length, MAX_EXTRA_CHUNKS)) * 1000) / 1000,
+        sections: sections.length > 0 ? sections : undefined,
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Normalizes a URL for comparison: resolves relative paths against the domain and drops
+ * the fragment, query string and trailing slash. Returns undefined for non-http links.
+ */
+export function normalizeUrl(href: string, domain: string): string | undefined {
+  try {
+    const url = new URL(href, `${domain}/`);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return undefined;
+    }
+    const path = url.pathname.replace(/\/+$/, '');
+    return `${url.protocol}//${url.host.toLowerCase()}${path}`;
+  } catch {
+    return undefined;
+  }
+}
+
+export function bareHost(host: string): string {
+  return host.toLowerCase().replace(/^www\./, '');
+}
+
+/**
+ * Normalizes a URL like normalizeUrl, moving it onto the site's own origin when only "www." or the scheme differs.
+ */
+export function normalizeSiteUrl(href: string, domain: string): string | undefined {
+  const normalized = normalizeUrl(href, domain);
+  if (!normalized) return undefined;
+  const url = new URL(normalized);
+  const site = new URL(domain);
+  return bareHost(url.host) === bareHost(site.host) ? `${site.protocol}//${site.host.toLowerCase()}${url.pathname.replace(/\/$/, '')}` : normalized;
+}
+
+/**
+ * Checks every link in the generated article against the allowed internal links and the homepage.
+ * Hallucinated internal URLs are remapped to the closest unused allowed page by anchor text
+ * similarity, or unwrapped to plain text when nothing is close enough. Repeated URLs are unwrapped
+ * so each page is linked at most once.
+ */
+export async function auditLinks(
+  html: string,
+  allowedLinks: InternalLink[],
+  domain: string,
+  llm: ModelRouter
+): Promise<{ html: string; report: LinkReport }> {
+  const siteHost = new URL(domain).host.toLowerCase();
+  const homepage = normalizeSiteUrl(domain, domain)!;
+  const allowed = new Map<string, InternalLink>();
+  for (const link of allowedLinks) {
+    const key = normalizeSiteUrl(link.url, domain);
+    if (key) {
+      allowed.set(key, link);
+    }
+  }
+
+  const anchors = [...html.matchAll(ANCHOR_REGEX)].map((match) => {
+    const href = match[1].match(HREF_REGEX)?.[2] ?? '';
+    // In-page anchors and empty hrefs are left alone
+    const normalized = href && !href.startsWith('#') ? normalizeSiteUrl(href, domain) : undefined;
+    const isInternal = !!normalized && new URL(normalized).host === siteHost;
+    return { attributes: match[1], inner: match[2], anchor: stripTags(match[2]), href, normalized, isInternal };
+  });
+
+  // Embed the anchor text of every hallucinated link together with the candidate pages in one call
+  const hallucinated = anchors.filter((a) => a.isInternal && a.normalized !== homepage && !allowed.has(a.normalized!));
+  const candidates = [...allowed.entries()];
+  let anchorEmbeddings: number[][] = [];
+  let candidateEmbeddings: number[][] = [];
+  if (hallucinated.length > 0 && candidates.length > 0) {
+    const embeddings = await llm.embed([
+      ...hallucinated.map((a) => a.anchor || a.href),
+      ...candidates.map(([, link]) => `${link.primaryKeyword} - ${link.title}`),
+    ]);
+    anchorEmbeddings = embeddings.slice(0, hallucinated.length);
+    candidateEmbeddings = embeddings.slice(hallucinated.length);
+  }
+
+  const report: LinkReport = { total: anchors.length, kept: 0, byContentType: {}, remapped: [], dropped: [], external: [] };
+  const used = new Set<string>();
+  const replacements = new Map<(typeof anchors)[number], string>();
+
+  const keep = (url: string, contentType: string) => {
+    used.add(url);
+    report.kept++;
+    report.byContentType[contentType] = (report.byContentType[contentType] || 0) + 1;
+  };
+
+  for (const anchor of anchors) {
+    if (!anchor.isInternal) {
+      if (anchor.normalized) {
+        report.external.push(anchor.href);
+      }
+      continue;
+    }
+
+    const url = anchor.normalized!;
+    if (url === homepage || allowed.has(url)) {
+      if (used.has(url)) {
+        report.dropped.push({ url: anchor.href, anchor: anchor.anchor, reason: 'duplicate' });
+        replacements.set(anchor, anchor.inner);
+      } else {
+        keep(url, url === homepage ? 'homepage' : allowed.get(url)!.contentType);
+      }
+      continue;
+    }
+
+    // Hallucinated URL, find the nearest allowed page that hasn't been linked yet
+    const index = hallucinated.indexOf(anchor);
+    let best: { key: string; link: InternalLink; score: number } | undefined;
+    if (anchorEmbeddings[index]) {
+      for (let i = 0; i < candidates.length; i++) {
+        const [key, link] = candidates[i];
+        if (used.has(key)) continue;
+        const score = cosineSimilarity(anchorEmbeddings[index], candidateEmbeddings[i]);
+        if (score >= REMAP_THRESHOLD && (!best || score > best.score)) {
+          best = { key, link, score };
+        }
+      }
+    }
+
+    if (best) {
+      report.remapped.push({ from: anchor.href, to: best.link.url, anchor: anchor.anchor });
+      replacements.set(anchor, `<a${anchor.attributes.replace(HREF_REGEX, `href="${best.link.url}"`)}>${anchor.inner}</a>`);
+      keep(best.key, best.link.contentType);
+    } else {
+      report.dropped.push({ url: anchor.href, anchor: anchor.anchor, reason: 'not_allowed' });
+      replacements.set(anchor, anchor.inner);
+    }
+  }
+
+  // Rewrite in document order so identical anchors are replaced one occurrence at a time
+  let index = 0;
+  const rewritten = html.replace(ANCHOR_REGEX, (match) => {
+    const anchor = anchors[index++];
+    return anchor && replacements.has(anchor) ? replacements.get(anchor)! : match;
+  });
+
+  return { html: rewritten, report };
+}
@@ -0,0 +1,280 @@
+import type { ShopifyAutobloggerAgent } from './index';
+import type { ShopifyClient } from './shopify';
+import type { InternalLink } from './link-audit';
+import { normalizeSiteUrl } from './link-audit';
+import { classifyUrl, type PageType } from './sitemap';
+
+// Targets that aren't known pages are checked over HTTP, up to this many per build
+const MAX_LINK_CHECKS = 200;
+// Similarity bonus for a page nothing links to yet, shrinking as it gains inbound links
+const UNDERLINKED_BONUS = 0.05;
+
+export type LinkGraphNode = {
+  url: string;
+  node_type: PageType;
+  title: string;
+  // 1 when the page's body was read for outgoing links
+  crawled: number;
+  // HTTP status of a checked link target, null when it wasn't checked
+  status: number | null;
+  built_at: string;
+};
+
+export type LinkGraphEdge = {
+  source_url: string;
+  target_url: string;
+  anchor_text: string;
+  link_count: number;
+};
+
+export type PageDegree = {
+  url: string;
+  node_type: PageType;
+  title: string;
+  crawled: number;
+  in_degree: number;
+  out_degree: number;
+};
+
+export type BrokenLink = {
+  source_url: string;
+  target_url: string;
+  anchor_text: string;
+  status: number;
+};
+
+export type LinkGraphReport = {
+  built_at: string | null;
+  totals: { pages: number; edges: number; orphans: number; broken: number };
+  // Articles and pages no other article or page links to
+  orphans: PageDegree[];
+  degrees: PageDegree[];
+  topProducts: PageDegree[];
+  topCollections: PageDegree[];
+  broken: BrokenLink[];
+};
+
+export type LinkGraphSource = { url: string; title: string; html: string };
+
+/**
+ * Maps links to the same page onto one URL: normalized, on the site's own host when only "www."
+ * differs, and with collection-scoped product URLs (/collections/x/products/y) reduced to the product URL.
+ */
+export function canonicalLinkUrl(href: string, domain: string): string | undefined {
+  return normalizeSiteUrl(href, domain)?.replace(/\/collections\/[^/]+(\/products\/[^/]+)$/, '$1');
+}
+
+/**
+ * Internal links of a page body, grouped by target with the first anchor text seen.
+ */
+export function extractInternalLinks(html: string, domain: string): Array<{ url: string; anchorText: string; count: number }> {
+  const host = new URL(domain).host.toLowerCase();
+  const links = new Map<string, { url: string; anchorText: string; count: number }>();
+
+  for (const match of html.matchAll(/<a\b[^>]*?\bhref\s*=\s*(["'])(.*?)\1[^>]*>([\s\S]*?)<\/a>/gi)) {
+    const href = match[2].trim();
+    if (!href || href.startsWith('#') || /^(mailto|tel|javascript):/i.test(href)) continue;
+    const url = canonicalLinkUrl(href, domain);
+    if (!url || new URL(url).host.toLowerCase() !== host) continue;
+
+    const existing = links.get(url);
+    if (existing) {
+      existing.count++;
+    } else {
+      links.set(url, { url, anchorText: match[3].replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim(), count: 1 });
+    }
+  }
+  return [...links.values()];
+}
+
+/**
+ * Reorders candidate links so that, among similar pages, the ones with fewer inbound links come first.
+ * Pages the graph doesn't know about are treated as well linked, so a stale graph can't promote them.
+ */
+export function favorUnderlinked(links: InternalLink[], inDegrees: Map<string, number>): InternalLink[] {
+  if (inDegrees.size === 0) return links;
+  const adjusted = (link: InternalLink) => {
+    const inDegree = inDegrees.get(canonicalLinkUrl(link.url, link.url) ?? link.url);
+    return inDegree === undefined ? link.score : link.score + UNDERLINKED_BONUS / (1 + inDegree);
+  };
+  return [...links].sort((a, b) => adjusted(b) - adjusted(a));
+}
+
+/**
+ * Site-wide graph of the internal links between articles, pages, products and collections, stored in SQLite.
+ */
+export class LinkGraph {
+  private agent: ShopifyAutobloggerAgent;
+
+  constructor(agent: ShopifyAutobloggerAgent) {
+    this.agent = agent;
+  }
+
+  async initSchema(): Promise<void> {
+    await this.agent.sql`
+      CREATE TABLE IF NOT EXISTS link_graph_nodes (
+        url TEXT PRIMARY KEY,
+        node_type TEXT NOT NULL,
+        title TEXT NOT NULL,
+        crawled INTEGER DEFAULT 0,
+        status INTEGER,
+        built_at TEXT NOT NULL
+      );
+    `;
+    await this.agent.sql`
+      CREATE TABLE IF NOT EXISTS link_graph_edges (
+        source_url TEXT NOT NULL,
+        target_url TEXT NOT NULL,
+        anchor_text TEXT,
+        link_count INTEGER DEFAULT 1,
+        PRIMARY KEY (source_url, target_url)
+      );
+    `;
+  }
+
+  /**
+   * Rebuilds the graph from every published article and page in the store. Known pages are the crawled
+   * ones plus the inventory's products and collections. Links to anything else are checked over HTTP
+   * so broken ones can be reported.
+   */
+  async build(shopify: ShopifyClient, domain: string, knownPages: Array<{ url: string; title: string }>): Promise<{ pages: number; edges: number; broken: number }> {
+    console.log(`🕸️ Building the internal link graph for ${domain}...`);
+    const sources: LinkGraphSource[] = [];
+    const { blogs } = await shopify.getBlogs();
+    for (const blog of blogs as any[]) {
+      for (const article of await shopify.getArticles(blog.id)) {
+        if (!article.published_at) continue;
+        sources.push({ url: `${domain}/blogs/${blog.handle}/${article.handle}`, title: article.title, html: article.body_html || '' });
+      }
+    }
+    for (const page of await shopify.getPages()) {
+      if (!page.published_at) continue;
+      sources.push({ url: `${domain}/pages/${page.handle}`, title: page.title, html: page.body_html || '' });
+    }
+
+    return this.store(sources, domain, knownPages);
+  }
+
+  /**
+   * Replaces the stored graph with the links found in the given pages.
+   */
+  async store(sources: LinkGraphSource[], domain: string, knownPages: Array<{ url: string; title: string }>): Promise<{ pages: number; edges: number; broken: number }> {
+    const builtAt = new Date().toISOString();
+    const nodes = new Map<string, LinkGraphNode>();
+    const addNode = (url: string, title: string, crawled: boolean) => {
+      const key = canonicalLinkUrl(url, domain);
+      if (!key) return;
+      const existing = nodes.get(key);
+      if (existing) {
+        existing.crawled ||= crawled ? 1 : 0;
+        existing.title ||= title;
+        return;
+      }
+      nodes.set(key, { url: key, node_type: classifyUrl(key), title, crawled: crawled ? 1 : 0, status: null, built_at: builtAt });
+    };
+
+    for (const page of knownPages) addNode(page.url, page.title, false);
+    for (const source of sources) addNode(source.url, source.title, true);
+    const known = new Set(nodes.keys());
+
+    const edges: LinkGraphEdge[] = [];
+    for (const source of sources) {
+      const sourceUrl = canonicalLinkUrl(source.url, domain) ?? source.url;
+      for (const link of extractInternalLinks(source.html, domain)) {
+        if (link.url === sourceUrl) continue;
+        addNode(link.url, '', false);
+        edges.push({ source_url: sourceUrl, target_url: link.url, anchor_text: link.anchorText, link_count: link.count });
+      }
+    }
+
+    // Only link targets outside the known pages can be broken, and the homepage and listings always exist
+    const unknownTargets = [...new Set(edges.map((edge) => edge.target_url))].filter((url) => !known.has(url) && nodes.get(url)?.node_type !== 'other');
+    if (unknownTargets.length > MAX_LINK_CHECKS) {
+      console.warn(`⚠️ ${unknownTargets.length} unknown link targets, checking the first ${MAX_LINK_CHECKS}`);
+    }
+    for (const url of unknownTargets.slice(0, MAX_LINK_CHECKS)) {
+      const node = nodes.get(url);
+      if (node) node.status = await checkUrl(url);
+    }
+
+    await this.agent.sql`DELETE FROM link_graph_edges;`;
+    await this.agent.sql`DELETE FROM link_graph_nodes;`;
+    for (const node of nodes.values()) {
+      await this.agent.sql`
+        INSERT INTO link_graph_nodes (url, node_type, title, crawled, status, built_at)
+        VALUES (${node.url}, ${node.node_type}, ${node.title}, ${node.crawled}, ${node.status}, ${node.built_at});
+      `;
+    }
+    for (const edge of edges) {
+      await this.agent.sql`
+        INSERT INTO link_graph_edges (source_url, target_url, anchor_text, link_count)
+        VALUES (${edge.source_url}, ${edge.target_url}, ${edge.anchor_text}, ${edge.link_count});
+      `;
+    }
+
+    const broken = [...nodes.values()].filter((node) => node.status !== null && node.status >= 400).length;
+    console.log(`✅ Link graph built: ${sources.length} pages read, ${nodes.size} nodes, ${edges.length} edges, ${broken} broken targets`);
+    return { pages: sources.length, edges: edges.length, broken };
+  }
+
+  async getDegrees(): Promise<PageDegree[]> {
+    return this.agent.sql<PageDegree>`
+      SELECT n.url, n.node_type, n.title, n.crawled,
+        (SELECT COUNT(*) FROM link_graph_edges e WHERE e.target_url = n.url) AS in_degree,
+        (SELECT COUNT(*) FROM link_graph_edges e WHERE e.source_url = n.url) AS out_degree
+      FROM link_graph_nodes n
+      ORDER BY n.url;
+    `;
+  }
+
+  /**
+   * Inbound link counts of every page in the graph, keyed by canonical URL. Empty until the graph is built.
+   */
+  async getInDegrees(): Promise<Map<string, number>> {
+    return new Map((await this.getDegrees()).map((page) => [page.url, page.in_degree]));
+  }
+
+  async getReport(limit: number = 20): Promise<LinkGraphReport> {
+    const degrees = await this.getDegrees();
+    const [meta] = await this.agent.sql<{ built_at: string | null }>`SELECT MAX(built_at) AS built_at FROM link_graph_nodes;`;
+    const broken = await this.agent.sql<BrokenLink>`
+      SELECT e.source_url, e.target_url, e.anchor_text, n.status
+      FROM link_graph_edges e JOIN link_graph_nodes n ON n.url = e.target_url
+      WHERE n.status >= 400
+      ORDER BY e.target_url, e.source_url;
+    `;
+    const crawled = degrees.filter((page) => page.crawled === 1);
+    const orphans = crawled.filter((page) => page.in_degree === 0);
+    const mostLinked = (type: PageType) =>
+      degrees
+        .filter((page) => page.node_type === type && page.in_degree > 0)
+        .sort((a, b) => b.in_degree - a.in_degree)
+        .slice(0, limit);
+
+    return {
+      built_at: meta?.built_at ?? null,
+      totals: { pages: crawled.length, edges: degrees.reduce((sum, page) => sum + page.out_degree, 0), orphans: orphans.length, broken: broken.length },
+      orphans,
+      degrees,
+      topProducts: mostLinked('product'),
+      topCollections: mostLinked('collection'),
+      broken,
+    };
+  }
+}
+
+/**
+ * HTTP status of a URL without following redirects, or null when the request itself fails.
+ */
+async function checkUrl(url: string): Promise<number | null> {
+  try {
+    let response = await fetch(url, { method: 'HEAD', redirect: 'manual' });
+    if (response.status === 405) {
+      response = await fetch(url, { redirect: 'manual' });
+    }
+    return response.status;
+  } catch (error) {
+    console.warn(`Error checking link ${url}:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,478 @@
+import { z } from 'zod';
+import { OpenAI } from 'openai';
+import { parseImageSize, renderPlaceholderPng } from './images';
+
+// Every place the pipeline calls a model, each configurable on its own
+export const LLM_STAGES = ['research', 'writing', 'keywords', 'personas', 'products', 'prompts', 'embeddings', 'images'] as const;
+
+export type LLMStage = (typeof LLM_STAGES)[number];
+
+const stageModelSchema = z.object({
+  provider: z.enum(['openai', 'openai-compatible', 'workers-ai', 'fake', 'placeholder']),
+  model: z.string().min(1),
+  // Only used by openai-compatible providers
+  baseUrl: z.string().url().optional(),
+  // Name of the Worker secret holding the API key, defaults to OPENAI_API_KEY
+  apiKeySecret: z.string().optional(),
+});
+
+export const modelConfigSchema = z.record(z.enum(LLM_STAGES), stageModelSchema);
+
+export type StageModel = z.infer<typeof stageModelSchema>;
+export type ModelConfig = z.infer<typeof modelConfigSchema>;
+
+/**
+ * Models used when a site doesn't override a stage.
+ * Changing the embeddings model changes vector dimensions, so the Vectorize index must be re-synced.
+ */
+export const DEFAULT_MODELS: Record<LLMStage, StageModel> = {
+  research: { provider: 'openai', model: 'gpt-4.1-mini' },
+  writing: { provider: 'openai', model: 'gpt-4.1' },
+  keywords: { provider: 'openai', model: 'gpt-4.1-mini' },
+  personas: { provider: 'openai', model: 'gpt-4.1-mini' },
+  products: { provider: 'openai', model: 'gpt-4.1-mini' },
+  prompts: { provider: 'openai', model: 'gpt-4.1-mini' },
+  embeddings: { provider: 'workers-ai', model: '@cf/baai/bge-base-en-v1.5' },
+  images: { provider: 'openai', model: 'dall-e-3' },
+};
+
+export type ChatMessage = {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+};
+
+export type ChatOptions = {
+  model: string;
+  stage?: LLMStage;
+  temperature?: number;
+  maxTokens?: number;
+};
+
+export type ImageOptions = {
+  model: string;
+  size?: string;
+  // Brand colors, only used by the placeholder renderer
+  palette?: readonly string[];
+};
+
+// A web page a research answer was grounded on
+export type Citation = {
+  url: string;
+  title?: string;
+};
+
+export type WebSearchResult = {
+  text: string;
+  citations: Citation[];
+};
+
+export interface LLMProvider {
+  readonly name: string;
+  chatJSON<T = any>(messages: ChatMessage[], options: ChatOptions): Promise<T>;
+  text(messages: ChatMessage[], options: ChatOptions): Promise<string>;
+  embed(texts: string[], options: { model: string }): Promise<number[][]>;
+  image(prompt: string, options: ImageOptions): Promise<ArrayBuffer>;
+  // Optional capability, callers fall back to text() when it is missing or fails
+  webSearch?(prompt: string, options: ChatOptions): Promise<WebSearchResult>;
+}
+
+/**
+ * Parses a model response that should be JSON, tolerating code fences and surrounding prose.
+ */
+export function parseJsonResponse<T = any>(raw: unknown): T {
+  if (typeof raw !== 'string') {
+    return (raw ?? {}) as T;
+  }
+
+  const trimmed = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    const start = trimmed.indexOf('{');
+    const end = trimmed.lastIndexOf('}');
+    if (start !== -1 && end > start) {
+      return JSON.parse(trimmed.slice(start, end + 1));
+    }
+    throw new Error(`Model did not return valid JSON: ${trimmed.substring(0, 200)}`);
+  }
+}
+
+type OpenAIImageSize = NonNullable<OpenAI.ImageGenerateParams['size']>;
+
+const OPENAI_IMAGE_SIZES: readonly OpenAIImageSize[] = ['256x256', '512x512', '1024x1024', '1536x1024', '1024x1536', '1792x1024', '1024x1792', 'auto'];
+
+/**
+ * The requested size when OpenAI supports it, otherwise the landscape size used for featured images.
+ */
+function openAIImageSize(size?: string): OpenAIImageSize {
+  return OPENAI_IMAGE_SIZES.find((supported) => supported === size) ?? '1792x1024';
+}
+
+function base64ToArrayBuffer(base64: string): ArrayBuffer {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+/**
+ * OpenAI and any OpenAI-compatible API (set a base URL for the latter).
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string;
+  private client: OpenAI;
+
+  constructor(apiKey: string, baseUrl?: string) {
+    this.name = baseUrl ? 'openai-compatible' : 'openai';
+    this.client = new OpenAI({ apiKey, baseURL: baseUrl });
+  }
+
+  async chatJSON<T = any>(messages: ChatMessage[], options: ChatOptions): Promise<T> {
+    const response = await this.client.chat.completions.create({
+      model: options.model,
+      messages,
+      temperature: options.temperature,
+      max_tokens: options.maxTokens,
+      response_format: { type: 'json_object' },
+    });
+    return parseJsonResponse<T>(response.choices[0].message.content || '{}');
+  }
+
+  async text(messages: ChatMessage[], options: ChatOptions): Promise<string> {
+    const response = await this.client.chat.completions.create({
+      model: options.model,
+      messages,
+      temperature: options.temperature,
+      max_tokens: options.maxTokens,
+    });
+    return response.choices[0].message.content || '';
+  }
+
+  async embed(texts: string[], options: { model: string }): Promise<number[][]> {
+    const response = await this.client.embeddings.create({ model: options.model, input: texts });
+    return response.data.map((d) => d.embedding);
+  }
+
+  async image(prompt: string, options: ImageOptions): Promise<ArrayBuffer> {
+    const response = await this.client.images.generate({
+      model: options.model,
+      prompt,
+      n: 1,
+      size: openAIImageSize(options.size),
+      quality: 'standard',
+      response_format: 'b64_json',
+    });
+
+    const base64 = response.data?.[0]?.b64_json;
+    if (!base64) {
+      throw new Error(`No image returned from ${options.model}`);
+    }
+    return base64ToArrayBuffer(base64);
+  }
+
+  async webSearch(prompt: string, options: ChatOptions): Promise<WebSearchResult> {
+    // Use the OpenAI Responses API with web search
+    const response = await this.client.responses.create({
+      model: options.model,
+      input: prompt,
+      tools: [{ type: 'web_search_preview' }],
+    });
+
+    // Extract the message content and annotations from the response structure
+    const messageOutput = response.output.find((o) => o.type === 'message');
+    if (messageOutput && messageOutput.type === 'message' && messageOutput.content[0].type === 'output_text') {
+      const citations = (messageOutput.content[0].annotations || []).flatMap((annotation) =>
+        annotation.type === 'url_citation' ? [{ url: annotation.url, title: annotation.title }] : []
+      );
+      return { text: messageOutput.content[0].text, citations };
+    }
+    return { text: 'No content found.', citations: [] };
+  }
+}
+
+// Flux models return base64 JSON, Stable Diffusion models return a PNG stream
+type WorkersAIImageModel = {
+  inputs: AiTextToImageInput;
+  postProcessedOutputs: AiTextToImageOutput | Ai_Cf_Black_Forest_Labs_Flux_1_Schnell_Output;
+};
+
+// Text of a generation response, streams are never requested
+function generatedText(output: AiTextGenerationOutput): unknown {
+  return output instanceof ReadableStream ? undefined : output.response;
+}
+
+/**
+ * Workers AI through the AI binding.
+ */
+export class WorkersAIProvider implements LLMProvider {
+  readonly name = 'workers-ai';
+  private ai: Ai;
+
+  constructor(ai: Ai) {
+    this.ai = ai;
+  }
+
+  /**
+   * The binding seen as serving models of one task, since models are configured by name rather than
+   * picked from the binding's list of known models.
+   */
+  private task<Model>(): Ai<Record<string, Model>> {
+    return this.ai as unknown as Ai<Record<string, Model>>;
+  }
+
+  async chatJSON<T = any>(messages: ChatMessage[], options: ChatOptions): Promise<T> {
+    const response = await this.task<BaseAiTextGeneration>().run(options.model, {
+      messages: [...messages, { role: 'system', content: 'Respond with a single valid JSON object and nothing else.' }],
+      temperature: options.temperature,
+      max_tokens: options.maxTokens ?? 4096,
+      response_format: { type: 'json_object' },
+    });
+    return parseJsonResponse<T>(generatedText(response));
+  }
+
+  async text(messages: ChatMessage[], options: ChatOptions): Promise<string> {
+    const response = await this.task<BaseAiTextGeneration>().run(options.model, {
+      messages,
+      temperature: options.temperature,
+      max_tokens: options.maxTokens ?? 4096,
+    });
+    const text = generatedText(response);
+    return typeof text === 'string' ? text : JSON.stringify(text);
+  }
+
+  async embed(texts: string[], options: { model: string }): Promise<number[][]> {
+    const response = await this.task<BaseAiTextEmbeddings>().run(options.model, { text: texts });
+    return response.data;
+  }
+
+  async image(prompt: string, options: ImageOptions): Promise<ArrayBuffer> {
+    const response = await this.task<WorkersAIImageModel>().run(options.model, { prompt });
+    if (response instanceof ReadableStream) {
+      return new Response(response).arrayBuffer();
+    }
+    if (!response?.image) {
+      throw new Error(`No image returned from ${options.model}`);
+    }
+    return base64ToArrayBuffer(response.image);
+  }
+}
+
+// 1x1 transparent PNG
+const FAKE_IMAGE_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+function hashString(input: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic offline provider for local development and tests.
+ * Identical inputs always produce identical outputs, and no network calls are made.
+ */
+export class FakeProvider implements LLMProvider {
+  readonly name = 'fake';
+  private responses: Partial<Record<LLMStage, unknown>>;
+  private dimensions: number;
+
+  constructor(responses: Partial<Record<LLMStage, unknown>> = {}, dimensions: number = 768) {
+    this.responses = responses;
+    this.dimensions = dimensions;
+  }
+
+  async chatJSON<T = any>(messages: ChatMessage[], options: ChatOptions): Promise<T> {
+    if (options.stage && this.responses[options.stage] !== undefined) {
+      return structuredClone(this.responses[options.stage]) as T;
+    }
+    const id = hashString(messages.map((m) => m.content).join('\n')).toString(16);
+    return this.defaultResponse(options.stage, id) as T;
+  }
+
+  private defaultResponse(stage: LLMStage | undefined, id: string): unknown {
+    switch (stage) {
+      case 'writing':
+        return {
+          title: `Fake Article ${id}`,
+          meta_description: `Fake meta description for article ${id}. `.padEnd(155, 'x'),
+          summary: `Fake summary for article ${id}, generated offline without calling any model.`,
+          handle: `fake-article-${id}`,
+          content: `<h1>Fake Article ${id}</h1><p>${'Introduction. '.repeat(20)}</p><h2>Section one</h2><p>${'Body. '.repeat(40)}</p><h2>Conclusion</h2><p>${'Wrap up. '.repeat(20)}</p>`,
+          tags: ['fake', 'test', 'local', 'offline', id],
+        };
+      case 'keywords':
+        return {
+          keywords: [{ keyword: `fake keyword ${id}`, priority_score: 5, intent: 'informational', difficulty: 'medium', content_angle: 'guide' }],
+        };
+      case 'personas':
+        return {
+          name: `Fake Author ${id}`,
+          background: 'Offline test persona.',
+          expertise: ['testing'],
+          experience_years: '1',
+          education: 'None',
+          achievements: [],
+          writing_voice: 'Plain.',
+          signature_style: 'Plain.',
+        };
+      default:
+        return { product_ids: [] };
+    }
+  }
+
+  async text(messages: ChatMessage[], options: ChatOptions): Promise<string> {
+    if (options.stage && typeof this.responses[options.stage] === 'string') {
+      return this.responses[options.stage] as string;
+    }
+    const last = messages[messages.length - 1].content;
+    return `Fake ${options.stage ?? 'text'} response #${hashString(last).toString(16)}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => {
+      let seed = hashString(text);
+      const vector = Array.from({ length: this.dimensions }, () => {
+        // xorshift keeps the vector stable for a given text
+        seed ^= seed << 13;
+        seed ^= seed >>> 17;
+        seed ^= seed << 5;
+        return ((seed >>> 0) / 0xffffffff) * 2 - 1;
+      });
+      const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+      return vector.map((v) => v / norm);
+    });
+  }
+
+  async image(): Promise<ArrayBuffer> {
+    return base64ToArrayBuffer(FAKE_IMAGE_BASE64);
+  }
+}
+
+/**
+ * Renders gradient placeholders locally, for sites that don't want generated images or for offline development.
+ * Only usable for the images stage.
+ */
+export class PlaceholderImageProvider implements LLMProvider {
+  readonly name = 'placeholder';
+
+  private unsupported(): never {
+    throw new Error('The placeholder provider only generates images');
+  }
+
+  async chatJSON<T = any>(): Promise<T> {
+    return this.unsupported();
+  }
+
+  async text(): Promise<string> {
+    return this.unsupported();
+  }
+
+  async embed(): Promise<number[][]> {
+    return this.unsupported();
+  }
+
+  async image(_prompt: string, options: ImageOptions): Promise<ArrayBuffer> {
+    const { width, height } = parseImageSize(options.size);
+    return renderPlaceholderPng(width, height, options.palette);
+  }
+}
+
+/**
+ * Resolves the provider and model for each pipeline stage from a site's model configuration.
+ */
+export class ModelRouter {
+  private env: Record<string, any>;
+  private models: Record<LLMStage, StageModel>;
+  private providers = new Map<string, LLMProvider>();
+
+  constructor(env: Record<string, any>, overrides: ModelConfig = {}) {
+    this.env = env;
+    this.models = { ...DEFAULT_MODELS, ...overrides };
+  }
+
+  /**
+   * Replaces the per-stage overrides, e.g. after the site configuration changes.
+   */
+  setModels(overrides: ModelConfig = {}) {
+    this.models = { ...DEFAULT_MODELS, ...overrides };
+    this.providers.clear();
+  }
+
+  getModels(): Record<LLMStage, StageModel> {
+    return this.models;
+  }
+
+  forStage(stage: LLMStage): { provider: LLMProvider; model: string } {
+    const config = this.models[stage];
+    const key = `${config.provider}|${config.baseUrl ?? ''}|${config.apiKeySecret ?? ''}`;
+
+    let provider = this.providers.get(key);
+    if (!provider) {
+      provider = this.createProvider(config);
+      this.providers.set(key, provider);
+    }
+    return { provider, model: config.model };
+  }
+
+  private createProvider(config: StageModel): LLMProvider {
+    const apiKey = this.env[config.apiKeySecret || 'OPENAI_API_KEY'] || '';
+    switch (config.provider) {
+      case 'openai':
+        return new OpenAIProvider(apiKey);
+      case 'openai-compatible':
+        if (!config.baseUrl) {
+          throw new Error('openai-compatible providers require a baseUrl');
+        }
+        return new OpenAIProvider(apiKey, config.baseUrl);
+      case 'workers-ai':
+        return new WorkersAIProvider(this.env.AI);
+      case 'fake':
+        return new FakeProvider();
+      case 'placeholder':
+        return new PlaceholderImageProvider();
+    }
+  }
+
+  async chatJSON<T = any>(stage: LLMStage, messages: ChatMessage[], options: Omit<ChatOptions, 'model' | 'stage'> = {}): Promise<T> {
+    const { provider, model } = this.forStage(stage);
+    return provider.chatJSON<T>(messages, { ...options, model, stage });
+  }
+
+  async text(stage: LLMStage, messages: ChatMessage[], options: Omit<ChatOptions, 'model' | 'stage'> = {}): Promise<string> {
+    const { provider, model } = this.forStage(stage);
+    return provider.text(messages, { ...options, model, stage });
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const { provider, model } = this.forStage('embeddings');
+    return provider.embed(texts, { model });
+  }
+
+  async image(prompt: string, size?: string, palette?: readonly string[]): Promise<ArrayBuffer> {
+    const { provider, model } = this.forStage('images');
+    return provider.image(prompt, { model, size, palette });
+  }
+
+  /**
+   * Runs a web-grounded research prompt, falling back to plain text generation when the
+   * research provider has no web search or the search call fails.
+   */
+  async research(prompt: string, fallbackMessages: ChatMessage[]): Promise<WebSearchResult & { webSearch: boolean; note?: string }> {
+    const { provider, model } = this.forStage('research');
+    if (provider.webSearch) {
+      try {
+        return { ...(await provider.webSearch(prompt, { model, stage: 'research' })), webSearch: true };
+      } catch (e: any) {
+        console.error(`Web search with ${provider.name} failed, falling back to AI knowledge base: ${e.message}`);
+        const text = await provider.text(fallbackMessages, { model, stage: 'research', temperature: 0.3 });
+        return { text, citations: [], webSearch: false, note: `Web search unavailable (${e.message}), used AI knowledge base` };
+      }
+    }
+    const text = await provider.text(fallbackMessages, { model, stage: 'research', temperature: 0.3 });
+    return { text, citations: [], webSearch: false, note: `${provider.name} has no web search, used AI knowledge base` };
+  }
+}
@@ -1,6 +1,6 @@
 
 import { z } from 'zod';
-import { OpenAI } from 'openai';
+import type { ModelRouter } from './llm';
 
 const personaSchema = z.object({
   id: z.string(),
@@ -19,13 +19,109 @@ const personaSchema = z.object({
 
 export type AuthorPersona = z.infer<typeof personaSchema>;
 
+// Fields accepted when a persona is created or edited by hand
+export const personaInputSchema = personaSchema.omit({ id: true, created_at: true }).extend({
+  expertise: z.array(z.string()).default([]),
+  experience_years: z.string().default(''),
+  education: z.string().default(''),
+  achievements: z.array(z.string()).default([]),
+  signature_style: z.string().default(''),
+  topic_area: z.string().default('all'),
+  style: z.string().default('informative'),
+});
+
+export type PersonaInput = z.infer<typeof personaInputSchema>;
+
+// Fields accepted when a persona is edited, only the given ones change
+export const personaUpdateSchema = personaInputSchema.partial();
+
+// Request to have the model write a persona for a topic area
+export const personaGenerateSchema = z.object({
+  topicArea: z.string().trim().min(1),
+  style: z.string().trim().min(1).default('informative'),
+});
+
+export type PersonaSelection = 'default' | 'topic' | 'rotate';
+
+/**
+ * Seed for the default persona, written to agent state the first time the agent starts.
+ */
+export const DEFAULT_PERSONA_ID = 'static-alexa-velinxs';
+
+export const DEFAULT_PERSONA_SEED: PersonaInput = {
+  name: "Alexa Velinxs",
+  background: "A 15-year veteran pheromone researcher and passionate advocate who has witnessed the transformative power of pheromone science firsthand. As a relationship and attraction expert, she helps people understand how pheromones can naturally enhance their appeal and confidence. Alexa Velinxs is pro-pheromones and works for royalpheromones.com which sells Liquid Alchemy Labs products - the gold standard in pheromone technology.",
+  expertise: ["pheromone research", "relationship psychology", "attraction science", "social confidence", "Liquid Alchemy Labs formulations", "dating enhancement"],
+  experience_years: "15+",
+  education: "Ph.D. in Pheromone Research & Human Behavior",
+  achievements: ["15 years of pheromone research breakthroughs", "Helped thousands improve their dating success with pheromone strategies", "Pioneer in practical pheromone applications for everyday confidence"],
+  writing_voice: "Passionate, confident, and genuinely helpful. She writes in accessible, straightforward language about the power of pheromones, combining scientific knowledge with practical advice. Enthusiastically promotes the effectiveness of quality pheromone products while being relatable and encouraging.",
+  signature_style: "Enthusiastic advocate who addresses pheromone questions with evidence and real results. Combines practical relationship advice with cutting-edge pheromone science to help readers build genuine confidence and natural attraction.",
+  topic_area: "all",
+  style: "informative-edgy",
+};
+
 export class PersonaManager {
   private personas: AuthorPersona[] = [];
-  private openai: OpenAI;
+  private llm: ModelRouter;
 
-  constructor(openai: OpenAI, initialPersonas: AuthorPersona[] = []) {
-    this.openai = openai;
-    this.personas = initialPersonas;
+  constructor(llm: ModelRouter, initialPersonas: AuthorPersona[] = []) {
+    this.llm = llm;
+    this.personas = [...initialPersonas];
+  }
+
+  addPersona(input: PersonaInput, id: string = crypto.randomUUID()): AuthorPersona {
+    const persona: AuthorPersona = {
+      ...personaInputSchema.parse(input),
+      id,
+      created_at: new Date().toISOString(),
+    };
+    this.personas.push(persona);
+    return persona;
+  }
+
+  getPersona(id: string): AuthorPersona | undefined {
+    return this.personas.find((p) => p.id === id);
+  }
+
+  updatePersona(id: string, update: Partial<PersonaInput>): AuthorPersona {
+    const index = this.personas.findIndex((p) => p.id === id);
+    if (index === -1) {
+      throw new Error(`Persona ${id} not found`);
+    }
+
+    const changes = personaUpdateSchema.parse(update);
+    const updated = { ...this.personas[index], ...changes };
+    this.personas[index] = updated;
+    return updated;
+  }
+
+  deletePersona(id: string): boolean {
+    const before = this.personas.length;
+    this.personas = this.personas.filter((p) => p.id !== id);
+    return this.personas.length < before;
+  }
+
+  /**
+   * Picks the persona whose topic area and expertise best overlap the keyword.
+   * Personas with the catch-all "all" topic area never win on topic alone.
+   */
+  findPersonaForKeyword(keyword: string): AuthorPersona | undefined {
+    const keywordTokens = new Set(keyword.toLowerCase().split(/\W+/).filter((t) => t.length > 2));
+    let best: AuthorPersona | undefined;
+    let bestScore = 0;
+
+    for (const persona of this.personas) {
+      const personaText = [persona.topic_area === 'all' ? '' : persona.topic_area, ...persona.expertise].join(' ').toLowerCase();
+      const personaTokens = new Set(personaText.split(/\W+/));
+      const score = [...keywordTokens].filter((t) => personaTokens.has(t)).length;
+      if (score > bestScore) {
+        best = persona;
+        bestScore = score;
+      }
+    }
+
+    return best;
   }
 
   async createPersona(topicArea: string, writingStyle: string): Promise<AuthorPersona> {
@@ -50,28 +146,23 @@ export class PersonaManager {
     
     This author should be credible and knowledgeable in this field.`;
 
-    const response = await this.openai.chat.completions.create({
-      model: 'gpt-4.1-mini',
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt },
-      ],
-      temperature: 0.8,
-      response_format: { type: 'json_object' },
-    });
-
-    const personaData = JSON.parse(response.choices[0].message.content || '{}');
+    const personaData = await this.llm.chatJSON('personas', [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userPrompt },
+    ], { temperature: 0.8 });
 
-    const newPersona: AuthorPersona = {
+    // Models often write the years of experience as a number
+    const experienceYears = personaData?.experience_years;
+    const parsed = personaInputSchema.safeParse({
       ...personaData,
-      id: crypto.randomUUID(),
-      created_at: new Date().toISOString(),
+      experience_years: typeof experienceYears === 'number' ? String(experienceYears) : experienceYears,
       topic_area: topicArea,
       style: writingStyle,
-    };
-
-    this.personas.push(newPersona);
-    return newPersona;
+    });
+    if (!parsed.success) {
+      throw new Error(`The model returned an invalid persona: ${parsed.error.issues.map((issue) => `${issue.path.join('.')} ${issue.message}`).join('; ')}`);
+    }
+    return this.addPersona(parsed.data);
   }
 
   findMatchingPersona(topicArea: string, writingStyle: string): AuthorPersona | undefined {
@@ -0,0 +1,76 @@
+import type { ShopifyProduct } from './shopify';
+
+export const PRODUCT_CARD_TEMPLATES = ['inline', 'comparison', 'sidebar'] as const;
+
+export type ProductCardTemplate = (typeof PRODUCT_CARD_TEMPLATES)[number];
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function productUrl(product: ShopifyProduct, storeDomain: string): string {
+  return `${storeDomain}/products/${product.handle}`;
+}
+
+function productImage(product: ShopifyProduct, style: string): string {
+  return product.image?.src ? `<img src="${escapeHtml(product.image.src)}" alt="${escapeHtml(product.title)}" style="${style}">` : '';
+}
+
+/**
+ * Full-width card with image, price and a call to action, placed between sections.
+ */
+export function renderInlineCard(product: ShopifyProduct, storeDomain: string): string {
+  const price = product.variants[0]?.price;
+  return `<div class="product-card product-card--inline" style="border: 1px solid #e5e7eb; border-radius: 8px; padding: 1.5rem; margin: 2rem 0; display: flex; align-items: center; gap: 1.5rem; flex-wrap: wrap;">
+  ${productImage(product, 'width: 150px; height: 150px; object-fit: cover; border-radius: 8px;')}
+  <div style="flex: 1; min-width: 200px;">
+    <h3 style="margin-top: 0;">${escapeHtml(product.title)}</h3>
+    <p>Unlock your potential with our top-rated formula.</p>
+    ${price ? `<p style="font-size: 1.5rem; font-weight: bold; margin: 0.5rem 0;">${escapeHtml(price)}</p>` : ''}
+    <a href="${productUrl(product, storeDomain)}" style="display: inline-block; background-color: #2563eb; color: white; padding: 0.75rem 1.5rem; text-decoration: none; border-radius: 8px; font-weight: bold;">Shop Now</a>
+  </div>
+</div>`;
+}
+
+/**
+ * Compact call to action floated beside the text of a section.
+ */
+export function renderSidebarCta(product: ShopifyProduct, storeDomain: string): string {
+  const price = product.variants[0]?.price;
+  return `<aside class="product-card product-card--sidebar" style="float: right; width: 240px; max-width: 100%; margin: 0 0 1rem 1.5rem; padding: 1rem; border: 1px solid #e5e7eb; border-radius: 8px; text-align: center;">
+  ${productImage(product, 'width: 100%; height: auto; border-radius: 6px;')}
+  <p style="font-weight: bold; margin: 0.5rem 0;">${escapeHtml(product.title)}</p>
+  ${price ? `<p style="margin: 0 0 0.75rem;">${escapeHtml(price)}</p>` : ''}
+  <a href="${productUrl(product, storeDomain)}" style="display: block; background-color: #2563eb; color: white; padding: 0.5rem 1rem; text-decoration: none; border-radius: 6px;">View product</a>
+</aside>`;
+}
+
+/**
+ * Side-by-side table of several products, placed once in the article.
+ */
+export function renderComparisonTable(products: ShopifyProduct[], storeDomain: string): string {
+  const rows = products
+    .map(
+      (product) => `    <tr>
+      <td style="padding: 0.75rem; border-bottom: 1px solid #e5e7eb;">${productImage(product, 'width: 64px; height: 64px; object-fit: cover; border-radius: 6px;')}</td>
+      <td style="padding: 0.75rem; border-bottom: 1px solid #e5e7eb;"><strong>${escapeHtml(product.title)}</strong></td>
+      <td style="padding: 0.75rem; border-bottom: 1px solid #e5e7eb;">${escapeHtml(product.variants[0]?.price || '')}</td>
+      <td style="padding: 0.75rem; border-bottom: 1px solid #e5e7eb;"><a href="${productUrl(product, storeDomain)}">Shop now</a></td>
+    </tr>`
+    )
+    .join('\n');
+
+  return `<table class="product-card product-card--comparison" style="width: 100%; border-collapse: collapse; margin: 2rem 0;">
+  <thead>
+    <tr>
+      <th style="text-align: left; padding: 0.75rem; border-bottom: 2px solid #e5e7eb;"></th>
+      <th style="text-align: left; padding: 0.75rem; border-bottom: 2px solid #e5e7eb;">Product</th>
+      <th style="text-align: left; padding: 0.75rem; border-bottom: 2px solid #e5e7eb;">Price</th>
+      <th style="text-align: left; padding: 0.75rem; border-bottom: 2px solid #e5e7eb;"></th>
+    </tr>
+  </thead>
+  <tbody>
+${rows}
+  </tbody>
+</table>`;
+}
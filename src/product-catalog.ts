@@ -0,0 +1,236 @@
+import type { ShopifyAutobloggerAgent } from './index';
+import type { ModelRouter } from './llm';
+import type { ShopifyClient, ShopifyProduct } from './shopify';
+
+// How long the cached catalog is used before it is read from Shopify again
+const REFRESH_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+// Vectorize metadata content type of catalog products, distinct from the 'product' pages used for internal links
+const CATALOG_CONTENT_TYPE = 'catalog_product';
+// Vectorize's maximum topK when returning all metadata
+const MAX_QUERY_RESULTS = 20;
+
+export type CachedProduct = {
+  id: number;
+  handle: string;
+  title: string;
+  product_type: string;
+  tags: string;
+  description: string;
+  status: string;
+  in_stock: number;
+  data: string;
+  shopify_updated_at: string | null;
+  embedded_at: string | null;
+  synced_at: string;
+};
+
+export type CatalogRefreshResult = {
+  skipped: boolean;
+  total: number;
+  eligible: number;
+  embedded: number;
+  removed: number;
+  refreshed_at: string;
+};
+
+function stripHtml(html: string | undefined): string {
+  return (html || '').replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * A product can be sold when any variant is untracked, allows overselling, or has stock left.
+ */
+export function isInStock(product: ShopifyProduct): boolean {
+  return product.variants.some(
+    (v) => !v.inventory_management || v.inventory_policy === 'continue' || (v.inventory_quantity ?? 0) > 0
+  );
+}
+
+function embeddingText(product: ShopifyProduct): string {
+  return [product.title, product.product_type, product.tags, stripHtml(product.body_html).substring(0, 1000)]
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Local copy of the store's product catalog in SQLite, with product embeddings in Vectorize
+ * for semantic matching.
+ */
+export class ProductCatalog {
+  private agent: ShopifyAutobloggerAgent;
+  private llm: ModelRouter;
+  private index: VectorizeIndex;
+  private shopify?: ShopifyClient;
+  private namespace?: string;
+
+  constructor(agent: ShopifyAutobloggerAgent, llm: ModelRouter, index: VectorizeIndex) {
+    this.agent = agent;
+    this.llm = llm;
+    this.index = index;
+  }
+
+  async initSchema(): Promise<void> {
+    await this.agent.sql`
+      CREATE TABLE IF NOT EXISTS products (
+        id INTEGER PRIMARY KEY,
+        handle TEXT NOT NULL,
+        title TEXT NOT NULL,
+        product_type TEXT,
+        tags TEXT,
+        description TEXT,
+        status TEXT,
+        in_stock INTEGER DEFAULT 0,
+        data TEXT NOT NULL,
+        shopify_updated_at TEXT,
+        embedded_at TEXT,
+        synced_at TEXT NOT NULL
+      );
+    `;
+    await this.agent.sql`
+      CREATE TABLE IF NOT EXISTS catalog_meta (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        refreshed_at TEXT
+      );
+    `;
+  }
+
+  /**
+   * Points the catalog at the site's store and Vectorize namespace.
+   */
+  useSite(shopify: ShopifyClient, namespace?: string) {
+    this.shopify = shopify;
+    this.namespace = namespace;
+  }
+
+  async getLastRefresh(): Promise<string | undefined> {
+    const rows = await this.agent.sql<{ refreshed_at: string }>`SELECT refreshed_at FROM catalog_meta WHERE id = 1;`;
+    return rows[0]?.refreshed_at;
+  }
+
+  /**
+   * Reads the full catalog from Shopify into the cache and embeds new or changed products.
+   * Does nothing when the cache is fresher than the refresh interval, unless forced.
+   */
+  async refresh(force: boolean = false): Promise<CatalogRefreshResult> {
+    const lastRefresh = await this.getLastRefresh();
+    if (!force && lastRefresh && Date.now() - new Date(lastRefresh).getTime() < REFRESH_INTERVAL_MS) {
+      const [counts] = await this.agent.sql<{ total: number; eligible: number }>`
+        SELECT COUNT(*) as total, COALESCE(SUM(CASE WHEN status = 'active' AND in_stock = 1 THEN 1 ELSE 0 END), 0) as eligible FROM products;
+      `;
+      return { skipped: true, total: counts.total, eligible: counts.eligible, embedded: 0, removed: 0, refreshed_at: lastRefresh };
+    }
+    if (!this.shopify) {
+      throw new Error('Product catalog has no store configured');
+    }
+
+    console.log(`🛒 Refreshing product catalog...`);
+    const refreshStart = Date.now();
+    const products = await this.shopify.getAllProducts();
+    const now = new Date().toISOString();
+
+    const existing = new Map(
+      (await this.agent.sql<{ id: number; shopify_updated_at: string | null; embedded_at: string | null }>`
+        SELECT id, shopify_updated_at, embedded_at FROM products;
+      `).map((row) => [row.id, row])
+    );
+
+    const toEmbed: ShopifyProduct[] = [];
+    for (const product of products) {
+      const previous = existing.get(product.id);
+      const changed = !previous || previous.shopify_updated_at !== (product.updated_at ?? null) || !previous.embedded_at;
+
+      await this.agent.sql`
+        INSERT INTO products (id, handle, title, product_type, tags, description, status, in_stock, data, shopify_updated_at, embedded_at, synced_at)
+        VALUES (${product.id}, ${product.handle}, ${product.title}, ${product.product_type || ''}, ${product.tags || ''},
+                ${stripHtml(product.body_html)}, ${product.status || 'active'}, ${isInStock(product) ? 1 : 0}, ${JSON.stringify(product)},
+                ${product.updated_at ?? null}, ${changed ? null : (previous?.embedded_at ?? null)}, ${now})
+        ON CONFLICT(id) DO UPDATE SET
+          handle = excluded.handle, title = excluded.title, product_type = excluded.product_type, tags = excluded.tags,
+          description = excluded.description, status = excluded.status, in_stock = excluded.in_stock, data = excluded.data,
+          shopify_updated_at = excluded.shopify_updated_at, embedded_at = excluded.embedded_at, synced_at = excluded.synced_at;
+      `;
+      if (changed) {
+        toEmbed.push(product);
+      }
+      existing.delete(product.id);
+    }
+
+    // Whatever is left was deleted in Shopify
+    const removedIds = [...existing.keys()];
+    for (const id of removedIds) {
+      await this.agent.sql`DELETE FROM products WHERE id = ${id};`;
+    }
+    if (removedIds.length > 0) {
+      await this.index.deleteByIds(removedIds.map((id) => this.vectorId(id)));
+    }
+
+    const embedded = await this.embedProducts(toEmbed);
+
+    await this.agent.sql`
+      INSERT INTO catalog_meta (id, refreshed_at) VALUES (1, ${now})
+      ON CONFLICT(id) DO UPDATE SET refreshed_at = excluded.refreshed_at;
+    `;
+
+    const eligible = products.filter((p) => (p.status || 'active') === 'active' && isInStock(p)).length;
+    console.log(`✅ Catalog refreshed: ${products.length} products, ${eligible} eligible, ${embedded} embedded, ${removedIds.length} removed (${Date.now() - refreshStart}ms)`);
+    return { skipped: false, total: products.length, eligible, embedded, removed: removedIds.length, refreshed_at: now };
+  }
+
+  private vectorId(productId: number): string {
+    return `product-${productId}`;
+  }
+
+  private async embedProducts(products: ShopifyProduct[]): Promise<number> {
+    const chunkSize = 20;
+    let embedded = 0;
+
+    for (let i = 0; i < products.length; i += chunkSize) {
+      const chunk = products.slice(i, i + chunkSize);
+      const embeddings = await this.llm.embed(chunk.map(embeddingText));
+
+      await this.index.upsert(
+        chunk.map((product, j) => ({
+          id: this.vectorId(product.id),
+          values: embeddings[j],
+          namespace: this.namespace,
+          metadata: { contentType: CATALOG_CONTENT_TYPE, productId: product.id, title: product.title, handle: product.handle },
+        }))
+      );
+
+      const now = new Date().toISOString();
+      for (const product of chunk) {
+        await this.agent.sql`UPDATE products SET embedded_at = ${now} WHERE id = ${product.id};`;
+      }
+      embedded += chunk.length;
+    }
+
+    return embedded;
+  }
+
+  /**
+   * Finds the active, in-stock products closest to a query, most similar first.
+   * Empty when no eligible product matches, a post is better without products than with unrelated ones.
+   */
+  async findCandidates(query: string, limit: number = 10): Promise<ShopifyProduct[]> {
+    const [queryEmbedding] = await this.llm.embed([query]);
+    const results = await this.index.query(queryEmbedding, {
+      // Over-fetch since drafts and sold-out products are dropped afterwards
+      topK: Math.min(limit * 3, MAX_QUERY_RESULTS),
+      namespace: this.namespace,
+      returnMetadata: 'all',
+      filter: { contentType: CATALOG_CONTENT_TYPE },
+    });
+    const rankedIds = results.matches.map((match) => Number(match.metadata?.productId)).filter(Number.isFinite);
+
+    const eligible = await this.agent.sql<CachedProduct>`
+      SELECT * FROM products WHERE status = 'active' AND in_stock = 1;
+    `;
+    const byId = new Map(eligible.map((row) => [row.id, JSON.parse(row.data) as ShopifyProduct]));
+
+    return rankedIds
+      .map((id) => byId.get(id))
+      .filter((p): p is ShopifyProduct => !!p)
+      .slice(0, limit);
+  }
+}
@@ -0,0 +1,286 @@
+import { z } from 'zod';
+
+// Zod schema for the quality thresholds in the site configuration
+export const qualityThresholdsSchema = z.object({
+  // Posts scoring below this are regenerated, then drafted
+  minScore: z.number().min(0).max(100).default(70),
+  // Allowed deviation from the requested word count, as a fraction
+  wordCountTolerance: z.number().min(0).max(1).default(0.2),
+  minKeywordDensity: z.number().min(0).default(0.5),
+  maxKeywordDensity: z.number().min(0).default(2.5),
+  minKeywordH2s: z.number().int().min(0).default(2),
+  minInternalLinks: z.number().int().min(0).default(3),
+  // Flesch-Kincaid grade level
+  maxReadingGrade: z.number().min(1).default(12),
+  maxParagraphWords: z.number().int().min(20).default(150),
+  maxRegenerations: z.number().int().min(0).max(3).default(1),
+  // "regenerate" rewrites failing posts before drafting them, "draft" drafts them right away
+  onFail: z.enum(['regenerate', 'draft']).default('regenerate'),
+});
+
+export type QualityThresholds = z.infer<typeof qualityThresholdsSchema>;
+
+export type ContentMetrics = {
+  wordCount: number;
+  keywordInH1: boolean;
+  keywordInFirstParagraph: boolean;
+  keywordH2s: number;
+  keywordInConclusion: boolean;
+  keywordOccurrences: number;
+  keywordDensity: number;
+  h1Count: number;
+  h2Count: number;
+  skippedHeadingLevels: string[];
+  internalLinks: number;
+  externalLinks: number;
+  readingGrade: number;
+  paragraphCount: number;
+  longestParagraphWords: number;
+  averageParagraphWords: number;
+};
+
+export type QualityCheck = {
+  name: string;
+  passed: boolean;
+  weight: number;
+  actual: string;
+  expected: string;
+  // Instruction sent to the writer when the check fails
+  fix: string;
+};
+
+export type QualityReport = {
+  score: number;
+  passed: boolean;
+  metrics: ContentMetrics;
+  checks: QualityCheck[];
+  regenerations: number;
+  forcedDraft: boolean;
+  // Why revising stopped early, the post is drafted when a revision fails
+  revisionError?: string;
+  checked_at: string;
+};
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'");
+}
+
+function toText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, ' ')
+      .replace(/<[^>]+>/g, ' ')
+  )
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function words(text: string): string[] {
+  return text.match(/[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu) ?? [];
+}
+
+function elementTexts(html: string, tag: string): string[] {
+  return [...html.matchAll(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)<\\/${tag}>`, 'gi'))].map((m) => toText(m[1]));
+}
+
+function countPhrase(text: string, phrase: string): number {
+  const escaped = phrase.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+  if (!escaped) return 0;
+  return (text.match(new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, 'giu')) ?? []).length;
+}
+
+function countSyllables(word: string): number {
+  const w = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (w.length <= 3) return 1;
+  const groups = w.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '').match(/[aeiouy]{1,2}/g);
+  return Math.max(1, groups?.length ?? 1);
+}
+
+/**
+ * Flesch-Kincaid grade level of plain text.
+ */
+export function readingGrade(text: string): number {
+  const allWords = words(text);
+  if (allWords.length === 0) return 0;
+  const sentences = Math.max(1, (text.match(/[.!?]+(?=\s|$)/g) ?? []).length);
+  const syllables = allWords.reduce((sum, word) => sum + countSyllables(word), 0);
+  const grade = 0.39 * (allWords.length / sentences) + 11.8 * (syllables / allWords.length) - 15.59;
+  return Math.round(grade * 10) / 10;
+}
+
+function isInternalLink(href: string, domain: string): boolean {
+  if (href.startsWith('/') && !href.startsWith('//')) return true;
+  try {
+    return new URL(href).hostname.replace(/^www\./, '') === new URL(domain).hostname.replace(/^www\./, '');
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Measures an article's HTML: length, keyword placement and density, heading structure,
+ * links, readability and paragraph length.
+ */
+export function analyzeContent(html: string, keyword: string, domain: string): ContentMetrics {
+  const text = toText(html);
+  const wordCount = words(text).length;
+  const keywordOccurrences = countPhrase(text, keyword);
+  const keywordWords = Math.max(1, words(keyword).length);
+
+  const h1s = elementTexts(html, 'h1');
+  const h2s = elementTexts(html, 'h2');
+  const paragraphs = elementTexts(html, 'p').filter(Boolean);
+  const paragraphWords = paragraphs.map((p) => words(p).length);
+
+  // The conclusion is everything after the last H2, or the last paragraph when there are none
+  const lastH2 = html.toLowerCase().lastIndexOf('<h2');
+  const conclusion = lastH2 >= 0 ? toText(html.substring(lastH2)) : (paragraphs[paragraphs.length - 1] ?? '');
+
+  const skippedHeadingLevels: string[] = [];
+  let previousLevel = 0;
+  for (const match of html.matchAll(/<h([1-6])\b/gi)) {
+    const level = Number(match[1]);
+    if (previousLevel > 0 && level > previousLevel + 1) {
+      skippedHeadingLevels.push(`h${previousLevel}→h${level}`);
+    }
+    previousLevel = level;
+  }
+
+  const hrefs = [...html.matchAll(/<a\b[^>]*\bhref\s*=\s*(["'])(.*?)\1/gi)].map((m) => m[2]);
+  const internalLinks = hrefs.filter((href) => isInternalLink(href, domain)).length;
+
+  return {
+    wordCount,
+    keywordInH1: h1s.some((h) => countPhrase(h, keyword) > 0),
+    keywordInFirstParagraph: countPhrase(paragraphs[0] ?? '', keyword) > 0,
+    keywordH2s: h2s.filter((h) => countPhrase(h, keyword) > 0).length,
+    keywordInConclusion: countPhrase(conclusion, keyword) > 0,
+    keywordOccurrences,
+    keywordDensity: wordCount > 0 ? Math.round(((keywordOccurrences * keywordWords) / wordCount) * 1000) / 10 : 0,
+    h1Count: h1s.length,
+    h2Count: h2s.length,
+    skippedHeadingLevels,
+    internalLinks,
+    externalLinks: hrefs.filter((href) => /^https?:\/\//i.test(href) && !isInternalLink(href, domain)).length,
+    readingGrade: readingGrade(paragraphs.join(' ')),
+    paragraphCount: paragraphs.length,
+    longestParagraphWords: Math.max(0, ...paragraphWords),
+    averageParagraphWords: paragraphWords.length > 0 ? Math.round(paragraphWords.reduce((a, b) => a + b, 0) / paragraphWords.length) : 0,
+  };
+}
+
+/**
+ * Scores measured content against the thresholds. The score is the weighted share of passed checks.
+ */
+export function scoreContent(metrics: ContentMetrics, keyword: string, targetWords: number, thresholds: QualityThresholds): Omit<QualityReport, 'regenerations' | 'forcedDraft'> {
+  const minWords = Math.round(targetWords * (1 - thresholds.wordCountTolerance));
+  const maxWords = Math.round(targetWords * (1 + thresholds.wordCountTolerance));
+
+  const checks: QualityCheck[] = [
+    {
+      name: 'word_count',
+      passed: metrics.wordCount >= minWords && metrics.wordCount <= maxWords,
+      weight: 3,
+      actual: `${metrics.wordCount} words`,
+      expected: `${minWords}-${maxWords} words`,
+      fix:
+        metrics.wordCount < minWords
+          ? `Expand the article to about ${targetWords} words (it has ${metrics.wordCount}) by deepening the existing sections with concrete detail from the research.`
+          : `Tighten the article to about ${targetWords} words (it has ${metrics.wordCount}) by cutting repetition and filler.`,
+    },
+    {
+      name: 'keyword_in_h1',
+      passed: metrics.keywordInH1 && metrics.h1Count === 1,
+      weight: 2,
+      actual: `${metrics.h1Count} H1, keyword ${metrics.keywordInH1 ? 'present' : 'missing'}`,
+      expected: 'exactly one H1 containing the keyword',
+      fix: `Use exactly one <h1>, and include "${keyword}" in it.`,
+    },
+    {
+      name: 'keyword_in_first_paragraph',
+      passed: metrics.keywordInFirstParagraph,
+      weight: 2,
+      actual: metrics.keywordInFirstParagraph ? 'present' : 'missing',
+      expected: 'keyword in the first paragraph',
+      fix: `Mention "${keyword}" naturally in the first paragraph.`,
+    },
+    {
+      name: 'keyword_in_h2s',
+      passed: metrics.keywordH2s >= thresholds.minKeywordH2s,
+      weight: 1,
+      actual: `${metrics.keywordH2s} H2s`,
+      expected: `at least ${thresholds.minKeywordH2s} H2s`,
+      fix: `Work "${keyword}" or a close variation into at least ${thresholds.minKeywordH2s} <h2> headings.`,
+    },
+    {
+      name: 'keyword_in_conclusion',
+      passed: metrics.keywordInConclusion,
+      weight: 1,
+      actual: metrics.keywordInConclusion ? 'present' : 'missing',
+      expected: 'keyword in the conclusion',
+      fix: `Mention "${keyword}" in the concluding section.`,
+    },
+    {
+      name: 'keyword_density',
+      passed: metrics.keywordDensity >= thresholds.minKeywordDensity && metrics.keywordDensity <= thresholds.maxKeywordDensity,
+      weight: 2,
+      actual: `${metrics.keywordDensity}%`,
+      expected: `${thresholds.minKeywordDensity}-${thresholds.maxKeywordDensity}%`,
+      fix:
+        metrics.keywordDensity < thresholds.minKeywordDensity
+          ? `Use "${keyword}" a few more times where it reads naturally (density is ${metrics.keywordDensity}%).`
+          : `Use "${keyword}" less often and prefer synonyms; it reads as keyword stuffing (density is ${metrics.keywordDensity}%).`,
+    },
+    {
+      name: 'heading_hierarchy',
+      passed: metrics.skippedHeadingLevels.length === 0 && metrics.h2Count >= 3,
+      weight: 1,
+      actual: `${metrics.h2Count} H2s${metrics.skippedHeadingLevels.length > 0 ? `, skips ${metrics.skippedHeadingLevels.join(', ')}` : ''}`,
+      expected: 'at least 3 H2s and no skipped heading levels',
+      fix: 'Structure the article with at least three <h2> sections, using <h3> only inside them and never skipping a level.',
+    },
+    {
+      name: 'internal_links',
+      passed: metrics.internalLinks >= thresholds.minInternalLinks,
+      weight: 2,
+      actual: `${metrics.internalLinks} internal links`,
+      expected: `at least ${thresholds.minInternalLinks}`,
+      fix: `Add contextual internal links so there are at least ${thresholds.minInternalLinks}, using only URLs from the links list.`,
+    },
+    {
+      name: 'readability',
+      passed: metrics.readingGrade <= thresholds.maxReadingGrade,
+      weight: 1,
+      actual: `grade ${metrics.readingGrade}`,
+      expected: `grade ${thresholds.maxReadingGrade} or lower`,
+      fix: `Simplify the writing to a grade ${thresholds.maxReadingGrade} reading level with shorter sentences and plainer words.`,
+    },
+    {
+      name: 'paragraph_length',
+      passed: metrics.longestParagraphWords <= thresholds.maxParagraphWords,
+      weight: 1,
+      actual: `longest paragraph ${metrics.longestParagraphWords} words`,
+      expected: `at most ${thresholds.maxParagraphWords} words`,
+      fix: `Split any paragraph longer than ${thresholds.maxParagraphWords} words into shorter ones.`,
+    },
+  ];
+
+  const total = checks.reduce((sum, check) => sum + check.weight, 0);
+  const earned = checks.filter((check) => check.passed).reduce((sum, check) => sum + check.weight, 0);
+  const score = Math.round((earned / total) * 100);
+
+  return { score, passed: score >= thresholds.minScore, metrics, checks, checked_at: new Date().toISOString() };
+}
+
+/**
+ * Metafield storing the score breakdown with the Shopify article.
+ */
+export function qualityMetafield(report: QualityReport) {
+  return { namespace: 'autoblogger', key: 'quality_report', value: JSON.stringify(report), type: 'json' };
+}
@@ -0,0 +1,263 @@
+import { marked } from 'marked';
+
+// Tags allowed in a Shopify article body, anything else is unwrapped to its text
+const ALLOWED_TAGS = new Set([
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'p', 'br', 'hr', 'div', 'span', 'section', 'aside',
+  'strong', 'b', 'em', 'i', 'u', 's', 'small', 'mark', 'sup', 'sub', 'code', 'pre', 'blockquote',
+  'ul', 'ol', 'li', 'dl', 'dt', 'dd', 'a', 'img', 'figure', 'figcaption',
+  'table', 'caption', 'thead', 'tbody', 'tfoot', 'tr', 'th', 'td', 'details', 'summary',
+]);
+
+// Tags removed together with everything inside them
+const DROPPED_TAGS = new Set([
+  'script', 'style', 'iframe', 'object', 'embed', 'noscript', 'template', 'head', 'title',
+  'svg', 'math', 'form', 'textarea', 'select', 'button', 'frameset', 'frame',
+]);
+
+const VOID_TAGS = new Set(['br', 'hr', 'img']);
+
+const GLOBAL_ATTRIBUTES = new Set(['class', 'id', 'style', 'title', 'lang', 'dir']);
+
+const TAG_ATTRIBUTES: Record<string, Set<string>> = {
+  a: new Set(['href', 'target', 'rel']),
+  // data-image-prompt marks in-body images still to be generated, see images.ts
+  img: new Set(['src', 'alt', 'width', 'height', 'loading', 'data-image-prompt']),
+  ol: new Set(['start', 'type']),
+  td: new Set(['colspan', 'rowspan']),
+  th: new Set(['colspan', 'rowspan', 'scope']),
+};
+
+const URL_ATTRIBUTES = new Set(['href', 'src']);
+
+// Block elements that implicitly close an open <p>, as browsers do
+const BLOCK_TAGS = new Set([
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'p', 'hr', 'div', 'section', 'aside', 'pre', 'blockquote',
+  'ul', 'ol', 'dl', 'figure', 'table', 'details',
+]);
+
+const HEADING_TAGS = new Set(['h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+
+type Token =
+  | { type: 'text'; value: string }
+  | { type: 'start'; name: string; attributes: Array<[string, string]> }
+  | { type: 'end'; name: string };
+
+const TAG_REGEX = /<!--[\s\S]*?(?:-->|$)|<!\[CDATA\[[\s\S]*?\]\]>|<![^>]*>|<\?[^>]*>|<\/?([a-zA-Z][a-zA-Z0-9-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*\/?>/g;
+const ATTRIBUTE_REGEX = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+function tokenize(html: string): Token[] {
+  const tokens: Token[] = [];
+  let lastIndex = 0;
+
+  for (const match of html.matchAll(TAG_REGEX)) {
+    if (match.index! > lastIndex) {
+      tokens.push({ type: 'text', value: html.slice(lastIndex, match.index) });
+    }
+    lastIndex = match.index! + match[0].length;
+
+    // Comments, doctypes, CDATA and processing instructions are dropped
+    if (!match[1]) continue;
+
+    const name = match[1].toLowerCase();
+    if (match[0].startsWith('</')) {
+      tokens.push({ type: 'end', name });
+      continue;
+    }
+
+    const attributes: Array<[string, string]> = [];
+    for (const attr of (match[2] || '').matchAll(ATTRIBUTE_REGEX)) {
+      attributes.push([attr[1].toLowerCase(), attr[2] ?? attr[3] ?? attr[4] ?? '']);
+    }
+    tokens.push({ type: 'start', name, attributes });
+  }
+
+  if (lastIndex < html.length) {
+    tokens.push({ type: 'text', value: html.slice(lastIndex) });
+  }
+  return tokens;
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);?/gi, (_, hex) => String.fromCodePoint(Number.parseInt(hex, 16)))
+    .replace(/&#(\d+);?/g, (_, dec) => String.fromCodePoint(Number(dec)))
+    .replace(/&colon;/gi, ':')
+    .replace(/&tab;/gi, '\t')
+    .replace(/&newline;/gi, '\n')
+    .replace(/&amp;/gi, '&');
+}
+
+/**
+ * Returns true for http(s), mailto, tel and relative URLs. Obfuscated schemes such as
+ * `java&#115;cript:` or `java\tscript:` are decoded before checking.
+ */
+export function isSafeUrl(value: string): boolean {
+  // biome-ignore lint/suspicious/noControlCharactersInRegex: browsers ignore control characters in schemes
+  const decoded = decodeEntities(value).replace(/[\u0000-\u0020\u007f]/g, '').toLowerCase();
+  const scheme = decoded.match(/^([a-z][a-z0-9+.-]*):/);
+  return !scheme || ['http', 'https', 'mailto', 'tel'].includes(scheme[1]);
+}
+
+function sanitizeStyle(style: string): string | undefined {
+  const decoded = decodeEntities(style).toLowerCase();
+  if (/expression\s*\(|javascript:|vbscript:|behavior\s*:|-moz-binding|@import/.test(decoded.replace(/\s+/g, ' '))) {
+    return undefined;
+  }
+  return style;
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&(?![a-z0-9#]+;)/gi, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeText(value: string): string {
+  return value.replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function sanitizeAttributes(name: string, attributes: Array<[string, string]>): string {
+  const allowed = TAG_ATTRIBUTES[name];
+  const kept = new Map<string, string>();
+
+  for (const [attr, value] of attributes) {
+    // Event handlers are never in the allowlist, but be explicit about it
+    if (attr.startsWith('on')) continue;
+    if (!GLOBAL_ATTRIBUTES.has(attr) && !allowed?.has(attr)) continue;
+    if (URL_ATTRIBUTES.has(attr) && !isSafeUrl(value)) continue;
+
+    if (attr === 'style') {
+      const style = sanitizeStyle(value);
+      if (style) kept.set(attr, style);
+      continue;
+    }
+    kept.set(attr, value);
+  }
+
+  if (name === 'a' && kept.get('target') === '_blank') {
+    const rel = new Set((kept.get('rel') || '').split(/\s+/).filter(Boolean));
+    rel.add('noopener');
+    rel.add('noreferrer');
+    kept.set('rel', [...rel].join(' '));
+  }
+
+  return [...kept].map(([attr, value]) => ` ${attr}="${escapeAttribute(value)}"`).join('');
+}
+
+/**
+ * Rebuilds the markup from tokens, keeping only allowlisted tags and attributes and producing
+ * well-formed nesting: stray end tags are dropped, unclosed tags are closed, and blocks close an open paragraph.
+ */
+function serialize(tokens: Token[]): string {
+  const output: string[] = [];
+  const stack: string[] = [];
+  let dropDepth = 0;
+  let droppedTag = '';
+
+  const closeUntil = (name: string) => {
+    const index = stack.lastIndexOf(name);
+    if (index === -1) return;
+    while (stack.length > index) {
+      output.push(`</${stack.pop()}>`);
+    }
+  };
+
+  for (const token of tokens) {
+    if (dropDepth > 0) {
+      if (token.type === 'start' && token.name === droppedTag) dropDepth++;
+      if (token.type === 'end' && token.name === droppedTag) dropDepth--;
+      continue;
+    }
+
+    if (token.type === 'text') {
+      output.push(escapeText(token.value));
+      continue;
+    }
+
+    const { name } = token;
+    if (DROPPED_TAGS.has(name)) {
+      if (token.type === 'start') {
+        dropDepth = 1;
+        droppedTag = name;
+      }
+      continue;
+    }
+    if (!ALLOWED_TAGS.has(name)) continue;
+
+    if (token.type === 'end') {
+      if (!VOID_TAGS.has(name)) closeUntil(name);
+      continue;
+    }
+
+    // Invalid nesting browsers would repair anyway
+    if (BLOCK_TAGS.has(name) && stack.includes('p')) closeUntil('p');
+    if (HEADING_TAGS.has(name)) {
+      const open = stack.filter((tag) => HEADING_TAGS.has(tag)).pop();
+      if (open) closeUntil(open);
+    }
+    if (name === 'a' && stack.includes('a')) closeUntil('a');
+    if (name === 'li' && stack[stack.length - 1] === 'li') closeUntil('li');
+
+    output.push(`<${name}${sanitizeAttributes(name, token.attributes)}>`);
+    if (!VOID_TAGS.has(name)) stack.push(name);
+  }
+
+  while (stack.length > 0) {
+    output.push(`</${stack.pop()}>`);
+  }
+  return output.join('');
+}
+
+const BLOCK_HTML_REGEX = /<(?:h[1-6]|p|div|ul|ol|table|blockquote|section|figure)\b[^>]*>/i;
+const MARKDOWN_BLOCK_REGEX = /^(?:#{1,6}\s+\S|[-*+]\s+\S|\d+\.\s+\S|>\s+\S|```)/m;
+const MARKDOWN_INLINE_REGEX = /\*\*[^*\n]+\*\*|__[^_\n]+__|\[[^\]\n]+\]\((?:https?:\/\/|\/)[^)\s]+\)/;
+
+/**
+ * Detects Markdown in model output: pure Markdown, or Markdown syntax mixed into HTML.
+ */
+export function looksLikeMarkdown(content: string): boolean {
+  return MARKDOWN_BLOCK_REGEX.test(content) || MARKDOWN_INLINE_REGEX.test(content);
+}
+
+/**
+ * Converts Markdown to HTML. Content that is already mostly HTML only gets its Markdown headings
+ * and inline emphasis and links converted, so indented markup isn't mistaken for code blocks.
+ */
+export function markdownToHtml(content: string): string {
+  if (!BLOCK_HTML_REGEX.test(content)) {
+    return marked.parse(content, { async: false, gfm: true });
+  }
+
+  return content
+    .replace(/^(#{1,6})\s+(.+?)\s*#*\s*$/gm, (_, hashes: string, text: string) => `<h${hashes.length}>${text}</h${hashes.length}>`)
+    .replace(/\*\*([^*\n]+)\*\*|__([^_\n]+)__/g, (_, a, b) => `<strong>${a ?? b}</strong>`)
+    .replace(/\[([^\]\n]+)\]\(((?:https?:\/\/|\/)[^)\s]+)\)/g, '<a href="$2">$1</a>');
+}
+
+/**
+ * Strips wrappers models commonly put around an article: code fences and full HTML documents.
+ */
+function unwrap(content: string): string {
+  const inner = content.trim().replace(/^```[a-z]*\s*/i, '').replace(/\s*```$/, '');
+  const body = inner.match(/<body[^>]*>([\s\S]*?)(?:<\/body>|$)/i);
+  return (body ? body[1] : inner).trim();
+}
+
+/**
+ * Turns raw model output into a safe Shopify article body: Markdown is converted to HTML,
+ * tags and attributes outside the allowlist are removed, unsafe URLs and styles are stripped,
+ * and the markup is re-serialized with valid nesting.
+ */
+export function sanitizeArticleHtml(content: unknown): string {
+  if (typeof content !== 'string') {
+    return '';
+  }
+
+  let html = unwrap(content);
+  if (looksLikeMarkdown(html)) {
+    html = markdownToHtml(html);
+  }
+
+  return serialize(tokenize(html))
+    .replace(/<p>\s*<\/p>/g, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
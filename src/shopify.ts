@@ -15,25 +15,214 @@ const shopifyAPIResponseValidator = z.object({
 });
 
 export type ShopifyProduct = z.infer<typeof shopifyAPIResponseValidator> & {
-    variants: { price: string }[];
-    image: { src: string };
+    product_type?: string;
+    status?: 'active' | 'archived' | 'draft';
+    published_at?: string | null;
+    variants: {
+      price: string;
+      inventory_quantity?: number;
+      inventory_management?: string | null;
+      inventory_policy?: 'deny' | 'continue';
+    }[];
+    image: { src: string } | null;
 };
 
+// Blog article as returned by the Admin REST API, with the fields the app reads
+export type ShopifyArticle = {
+  id: number;
+  blog_id: number;
+  title: string;
+  handle: string;
+  body_html: string | null;
+  summary_html?: string | null;
+  author?: string;
+  tags?: string;
+  published_at: string | null;
+  created_at?: string;
+  updated_at?: string;
+  image?: { src: string; alt?: string | null } | null;
+};
+
+export type ShopifyMetafieldInput = { namespace: string; key: string; value: string; type: string };
+
+// Article fields the app sends when creating or updating a post, updates only send what changes
+export type ShopifyArticleInput = Partial<{
+  title: string;
+  body_html: string;
+  summary_html: string;
+  handle: string;
+  tags: string;
+  published: boolean;
+  image: { src: string; alt?: string };
+  metafields: ShopifyMetafieldInput[];
+}>;
+
+/**
+ * Returns the endpoint of the next page from a Shopify `Link` header, if there is one.
+ */
+export function parseNextPageEndpoint(linkHeader: string | null): string | undefined {
+  if (!linkHeader) return undefined;
+  for (const part of linkHeader.split(',')) {
+    const match = part.match(/<([^>]+)>\s*;\s*rel="?next"?/);
+    if (match) {
+      // Drop the origin and API version prefix, leaving e.g. products.json?limit=250&page_info=...
+      return match[1].replace(/^.*\/admin\/api\/[^/]+\//, '');
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Metafields Shopify themes read for an article's SEO title and meta description.
+ */
+export function seoMetafields(title: string, description: string) {
+  return [
+    { namespace: 'global', key: 'title_tag', value: title, type: 'single_line_text_field' },
+    { namespace: 'global', key: 'description_tag', value: description, type: 'multi_line_text_field' },
+  ];
+}
+
+export const DEFAULT_SHOPIFY_API_VERSION = '2024-10';
+
+// REST calls leak out of the bucket at this rate on standard plans
+const REST_LEAK_RATE_PER_SECOND = 2;
+// Start slowing down once the bucket is this full
+const REST_THROTTLE_THRESHOLD = 0.8;
+const RETRY_BASE_DELAY_MS = 500;
+
+/**
+ * Any failed Shopify Admin API call, REST or GraphQL.
+ */
+export class ShopifyApiError extends Error {
+  readonly status: number;
+  readonly endpoint: string;
+  readonly body: string;
+
+  constructor(status: number, endpoint: string, body: string) {
+    super(`Shopify API error: ${status} ${endpoint} ${body}`.trim());
+    this.name = 'ShopifyApiError';
+    this.status = status;
+    this.endpoint = endpoint;
+    this.body = body;
+  }
+}
+
+/**
+ * Still rate limited after every retry was used.
+ */
+export class ShopifyRateLimitError extends ShopifyApiError {
+  readonly retryAfterMs: number;
+
+  constructor(endpoint: string, body: string, retryAfterMs: number) {
+    super(429, endpoint, body);
+    this.name = 'ShopifyRateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * A GraphQL response that came back with top-level errors.
+ */
+export class ShopifyGraphQLError extends ShopifyApiError {
+  readonly errors: Array<{ message: string; extensions?: Record<string, any> }>;
+
+  constructor(errors: Array<{ message: string; extensions?: Record<string, any> }>) {
+    super(200, 'graphql.json', errors.map((e) => e.message).join('; '));
+    this.name = 'ShopifyGraphQLError';
+    this.errors = errors;
+  }
+}
+
+export type ShopifyClientOptions = {
+  apiVersion?: string;
+  maxRetries?: number;
+};
+
+export type GraphQLCostStats = {
+  requests: number;
+  totalRequestedCost: number;
+  totalActualCost: number;
+  lastActualCost?: number;
+  currentlyAvailable?: number;
+  maximumAvailable?: number;
+  restoreRate?: number;
+};
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Whether a fetch failed while connecting, before the request could reach Shopify.
+ */
+function isConnectFailure(error: any): boolean {
+  const code = error?.cause?.code ?? error?.code;
+  if (['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'UND_ERR_CONNECT_TIMEOUT'].includes(code)) return true;
+  return /connect(?:ion)? (?:refused|failed)|getaddrinfo|dns/i.test(String(error?.message ?? ''));
+}
+
 export class ShopifyClient {
   private shopifyToken: string;
   private shopifyShopUrl: string;
+  private apiVersion: string;
+  private maxRetries: number;
+  // Last known REST bucket fill from X-Shopify-Shop-Api-Call-Limit
+  private restBucket?: { used: number; limit: number; at: number };
+  private graphqlCost: GraphQLCostStats = { requests: 0, totalRequestedCost: 0, totalActualCost: 0 };
 
-  constructor(shopifyToken: string, shopifyShopUrl: string) {
+  constructor(shopifyToken: string, shopifyShopUrl: string, options: ShopifyClientOptions = {}) {
     this.shopifyToken = shopifyToken;
     if (!shopifyShopUrl.endsWith('.myshopify.com')) {
       this.shopifyShopUrl = `${shopifyShopUrl}.myshopify.com`;
     } else {
       this.shopifyShopUrl = shopifyShopUrl;
     }
+    this.apiVersion = options.apiVersion || DEFAULT_SHOPIFY_API_VERSION;
+    this.maxRetries = options.maxRetries ?? 3;
   }
 
   private async makeShopifyRequest(endpoint: string, method: string = 'GET', data?: any): Promise<any> {
-    const url = `https://${this.shopifyShopUrl}/admin/api/2024-10/${endpoint}`;
+    const response = await this.fetchShopify(endpoint, method, data);
+    return response.json();
+  }
+
+  /**
+   * Waits long enough for the REST bucket to drain below the throttle threshold.
+   */
+  private async throttleRest(): Promise<void> {
+    if (!this.restBucket) return;
+    const { used, limit, at } = this.restBucket;
+    const leaked = ((Date.now() - at) / 1000) * REST_LEAK_RATE_PER_SECOND;
+    const excess = used - leaked - limit * REST_THROTTLE_THRESHOLD;
+    if (excess > 0) {
+      const waitMs = Math.ceil((excess / REST_LEAK_RATE_PER_SECOND) * 1000);
+      console.log(`⏳ Shopify REST bucket at ${used}/${limit}, waiting ${waitMs}ms`);
+      await sleep(waitMs);
+    }
+  }
+
+  private recordCallLimit(response: Response) {
+    const header = response.headers.get('X-Shopify-Shop-Api-Call-Limit');
+    const match = header?.match(/^(\d+)\/(\d+)$/);
+    if (match) {
+      this.restBucket = { used: Number(match[1]), limit: Number(match[2]), at: Date.now() };
+    }
+  }
+
+  private backoffDelay(attempt: number): number {
+    return RETRY_BASE_DELAY_MS * 2 ** attempt + Math.floor(Math.random() * RETRY_BASE_DELAY_MS);
+  }
+
+  /**
+   * Sends a request to the Admin API, throttling on the REST call limit and retrying rate limited (429)
+   * responses with backoff. Server (5xx) and network failures are only retried for idempotent requests,
+   * a POST that timed out may already have created its article or file, so it is only resent when the
+   * connection itself failed.
+   * @throws ShopifyRateLimitError when still rate limited after the last retry.
+   * @throws ShopifyApiError for any other non-2xx response.
+   */
+  private async fetchShopify(endpoint: string, method: string = 'GET', data?: any, idempotent: boolean = method !== 'POST'): Promise<Response> {
+    const url = `https://${this.shopifyShopUrl}/admin/api/${this.apiVersion}/${endpoint}`;
     const headers = {
       'X-Shopify-Access-Token': this.shopifyToken,
       'Content-Type': 'application/json',
@@ -48,27 +237,167 @@ export class ShopifyClient {
       options.body = JSON.stringify(data);
     }
 
-    const response = await fetch(url, options);
+    for (let attempt = 0; ; attempt++) {
+      await this.throttleRest();
+
+      let response: Response;
+      try {
+        response = await fetch(url, options);
+      } catch (error) {
+        if (attempt >= this.maxRetries || !(idempotent || isConnectFailure(error))) throw error;
+        const delay = this.backoffDelay(attempt);
+        console.warn(`⚠️ Shopify request to ${endpoint} failed (${error}), retrying in ${delay}ms`);
+        await sleep(delay);
+        continue;
+      }
+      this.recordCallLimit(response);
+
+      if (response.ok) {
+        return response;
+      }
 
-    if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(`Shopify API error: ${response.status} ${errorText}`);
+      if (response.status === 429) {
+        const retryAfter = Number.parseFloat(response.headers.get('Retry-After') || '');
+        const delay = Number.isFinite(retryAfter) ? retryAfter * 1000 : this.backoffDelay(attempt);
+        if (attempt >= this.maxRetries) {
+          throw new ShopifyRateLimitError(endpoint, errorText, delay);
+        }
+        console.warn(`⏳ Shopify rate limited on ${endpoint}, retrying in ${delay}ms`);
+        await sleep(delay);
+        continue;
+      }
+      if (response.status >= 500 && idempotent && attempt < this.maxRetries) {
+        const delay = this.backoffDelay(attempt);
+        console.warn(`⚠️ Shopify ${response.status} on ${endpoint}, retrying in ${delay}ms`);
+        await sleep(delay);
+        continue;
+      }
+
+      throw new ShopifyApiError(response.status, endpoint, errorText);
     }
+  }
 
-    return response.json();
+  /**
+   * Runs an Admin GraphQL query or mutation. Waits for the cost bucket to refill when the
+   * last known budget can't cover the query, and retries THROTTLED responses.
+   * @throws ShopifyGraphQLError when the response has top-level errors.
+   */
+  async graphql<T = any>(query: string, variables: Record<string, unknown> = {}): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      const { currentlyAvailable, restoreRate, lastActualCost } = this.graphqlCost;
+      if (currentlyAvailable !== undefined && restoreRate && lastActualCost && currentlyAvailable < lastActualCost) {
+        await sleep(Math.ceil(((lastActualCost - currentlyAvailable) / restoreRate) * 1000));
+      }
+
+      // Queries can be resent safely, mutations can't
+      const response = await this.fetchShopify('graphql.json', 'POST', { query, variables }, !/^\s*mutation\b/.test(query));
+      const body = (await response.json()) as { data?: T; errors?: any[]; extensions?: { cost?: any } };
+      this.recordGraphQLCost(body.extensions?.cost);
+
+      if (body.errors?.length) {
+        const throttled = body.errors.some((e) => e.extensions?.code === 'THROTTLED');
+        if (throttled && attempt < this.maxRetries) {
+          const cost = body.extensions?.cost;
+          const needed = (cost?.requestedQueryCost ?? 0) - (cost?.throttleStatus?.currentlyAvailable ?? 0);
+          const delay = cost?.throttleStatus?.restoreRate ? Math.ceil((needed / cost.throttleStatus.restoreRate) * 1000) : this.backoffDelay(attempt);
+          console.warn(`⏳ Shopify GraphQL throttled, retrying in ${delay}ms`);
+          await sleep(Math.max(delay, 0));
+          continue;
+        }
+        throw new ShopifyGraphQLError(body.errors);
+      }
+
+      return body.data as T;
+    }
+  }
+
+  private recordGraphQLCost(cost: any) {
+    if (!cost) return;
+    this.graphqlCost.requests++;
+    this.graphqlCost.totalRequestedCost += cost.requestedQueryCost ?? 0;
+    this.graphqlCost.totalActualCost += cost.actualQueryCost ?? 0;
+    this.graphqlCost.lastActualCost = cost.actualQueryCost ?? cost.requestedQueryCost;
+    this.graphqlCost.currentlyAvailable = cost.throttleStatus?.currentlyAvailable;
+    this.graphqlCost.maximumAvailable = cost.throttleStatus?.maximumAvailable;
+    this.graphqlCost.restoreRate = cost.throttleStatus?.restoreRate;
+  }
+
+  getGraphQLCostStats(): GraphQLCostStats {
+    return { ...this.graphqlCost };
   }
 
   async getBlogs(): Promise<any> {
     return this.makeShopifyRequest('blogs.json');
   }
 
-  async createBlogPost(blogId: number, article: any): Promise<any> {
-    return this.makeShopifyRequest(`blogs/${blogId}/articles.json`, 'POST', { article });
+  async getBlog(blogId: number): Promise<any> {
+    const response = await this.makeShopifyRequest(`blogs/${blogId}.json`);
+    return response.blog;
+  }
+
+  async createBlogPost(blogId: number, article: ShopifyArticleInput): Promise<ShopifyArticle> {
+    const response = await this.makeShopifyRequest(`blogs/${blogId}/articles.json`, 'POST', { article });
+    return response.article;
+  }
+
+  /**
+   * Reads every article of a blog.
+   */
+  async getArticles(blogId: number): Promise<ShopifyArticle[]> {
+    return this.getPaginated(`blogs/${blogId}/articles.json?limit=250`, 'articles');
+  }
+
+  /**
+   * Reads every online store page.
+   */
+  async getPages(): Promise<any[]> {
+    return this.getPaginated('pages.json?limit=250', 'pages');
+  }
+
+  async getArticle(blogId: number, articleId: number): Promise<ShopifyArticle> {
+    const response = await this.makeShopifyRequest(`blogs/${blogId}/articles/${articleId}.json`);
+    return response.article;
+  }
+
+  async updateArticle(blogId: number, articleId: number, article: ShopifyArticleInput): Promise<ShopifyArticle> {
+    const response = await this.makeShopifyRequest(`blogs/${blogId}/articles/${articleId}.json`, 'PUT', { article: { ...article, id: articleId } });
+    return response.article;
+  }
+
+  /**
+   * Creates or overwrites metafields of an existing article, which the REST article update can't do for keys it already has.
+   */
+  async setArticleMetafields(articleId: number, metafields: ShopifyMetafieldInput[]): Promise<void> {
+    const result = await this.graphql<any>(
+      `mutation metafieldsSet($metafields: [MetafieldsSetInput!]!) {
+        metafieldsSet(metafields: $metafields) {
+          metafields { namespace key }
+          userErrors { field message }
+        }
+      }`,
+      { metafields: metafields.map((metafield) => ({ ...metafield, ownerId: `gid://shopify/Article/${articleId}` })) }
+    );
+    this.throwOnUserErrors('metafieldsSet', result.metafieldsSet.userErrors);
   }
 
-  async getArticles(blogId: number): Promise<any[]> {
-    const response = await this.makeShopifyRequest(`blogs/${blogId}/articles.json`);
-    return response.articles;
+  /**
+   * Looks up the article behind a storefront URL like https://shop.com/blogs/news/my-post.
+   */
+  async findArticleByUrl(url: string): Promise<{ blogId: number; article: ShopifyArticle } | undefined> {
+    const match = new URL(url).pathname.match(/^\/blogs\/([^/]+)\/([^/?#]+)/);
+    if (!match) {
+      return undefined;
+    }
+    const [, blogHandle, handle] = match;
+    const { blogs } = await this.getBlogs();
+    const blog = (blogs as any[]).find((b) => b.handle === blogHandle);
+    if (!blog) {
+      return undefined;
+    }
+    const response = await this.makeShopifyRequest(`blogs/${blog.id}/articles.json?handle=${encodeURIComponent(handle)}`);
+    const article = response.articles?.[0];
+    return article ? { blogId: blog.id, article } : undefined;
   }
 
   async getProducts(): Promise<ShopifyProduct[]> {
@@ -76,34 +405,80 @@ export class ShopifyClient {
     return response.products;
   }
 
-  async uploadImage(imageData: ArrayBuffer, filename: string): Promise<string> {
+  /**
+   * Reads the whole catalog, following the cursor in the `Link` header page by page.
+   */
+  async getAllProducts(): Promise<ShopifyProduct[]> {
+    return this.getPaginated<ShopifyProduct>('products.json?limit=250', 'products');
+  }
+
+  private async getPaginated<T = any>(firstEndpoint: string, key: string): Promise<T[]> {
+    const items: T[] = [];
+    let endpoint: string | undefined = firstEndpoint;
+
+    while (endpoint) {
+      const response = await this.fetchShopify(endpoint);
+      const page = (await response.json()) as Record<string, T[]>;
+      items.push(...(page[key] ?? []));
+      endpoint = parseNextPageEndpoint(response.headers.get('Link'));
+    }
+
+    return items;
+  }
+
+  /**
+   * Uploads an image to the store's Files: stages the upload, posts the bytes to the staged
+   * target, registers it with fileCreate and polls until Shopify has processed it.
+   * @returns The CDN URL of the processed image.
+   */
+  async uploadImage(imageData: ArrayBuffer, filename: string, mimeType: string = 'image/png', alt?: string): Promise<string> {
     console.log(`📤 SHOPIFY IMAGE UPLOAD STARTED`);
     console.log(`📁 Filename: ${filename}`);
     console.log(`📊 Size: ${Math.round(imageData.byteLength / 1024)}KB`);
-    
+
     try {
-      console.log(`🔄 Converting image to base64...`);
-      const conversionStart = Date.now();
-      // Convert ArrayBuffer to base64
-      const base64 = btoa(String.fromCharCode(...new Uint8Array(imageData)));
-      console.log(`✅ Base64 conversion complete (${Date.now() - conversionStart}ms)`);
-      console.log(`📏 Base64 length: ${base64.length} characters`);
-      
-      const imagePayload = {
-        image: {
-          attachment: base64,
-          filename: filename
-        }
-      };
+      // 1. Reserve a staged upload target
+      const staged = await this.graphql<any>(
+        `mutation stagedUploadsCreate($input: [StagedUploadInput!]!) {
+          stagedUploadsCreate(input: $input) {
+            stagedTargets { url resourceUrl parameters { name value } }
+            userErrors { field message }
+          }
+        }`,
+        { input: [{ resource: 'IMAGE', filename, mimeType, httpMethod: 'POST', fileSize: String(imageData.byteLength) }] }
+      );
+      this.throwOnUserErrors('stagedUploadsCreate', staged.stagedUploadsCreate.userErrors);
+      const target = staged.stagedUploadsCreate.stagedTargets[0];
 
-      console.log(`🚀 Sending to Shopify API: themes/assets.json`);
+      // 2. Post the raw bytes, no base64 round trip needed
+      console.log(`🚀 Uploading to staged target...`);
       const uploadStart = Date.now();
-      const response = await this.makeShopifyRequest('themes/assets.json', 'PUT', imagePayload);
-      console.log(`✅ Shopify upload complete (${Date.now() - uploadStart}ms)`);
-      
-      const finalUrl = `https://${this.shopifyShopUrl.replace('.myshopify.com', '.com')}/files/${filename}`;
+      const form = new FormData();
+      for (const param of target.parameters) {
+        form.append(param.name, param.value);
+      }
+      form.append('file', new Blob([imageData], { type: mimeType }), filename);
+      const upload = await fetch(target.url, { method: 'POST', body: form });
+      if (!upload.ok) {
+        throw new ShopifyApiError(upload.status, 'staged upload', await upload.text());
+      }
+      console.log(`✅ Staged upload complete (${Date.now() - uploadStart}ms)`);
+
+      // 3. Turn the staged upload into a file
+      const created = await this.graphql<any>(
+        `mutation fileCreate($files: [FileCreateInput!]!) {
+          fileCreate(files: $files) {
+            files { id fileStatus }
+            userErrors { field message }
+          }
+        }`,
+        { files: [{ originalSource: target.resourceUrl, contentType: 'IMAGE', alt: alt || '' }] }
+      );
+      this.throwOnUserErrors('fileCreate', created.fileCreate.userErrors);
+
+      // 4. Wait for Shopify to process it and hand out the CDN URL
+      const finalUrl = await this.waitForFile(created.fileCreate.files[0].id);
       console.log(`🔗 Final image URL: ${finalUrl}`);
-      
       return finalUrl;
     } catch (error) {
       console.error(`❌ SHOPIFY IMAGE UPLOAD FAILED:`, error);
@@ -114,13 +489,43 @@ export class ShopifyClient {
     }
   }
 
-  async createBlogPostWithImage(blogId: number, article: any, imageUrl?: string): Promise<any> {
+  private async waitForFile(fileId: string, attempts: number = 10, intervalMs: number = 1000): Promise<string> {
+    for (let attempt = 0; attempt < attempts; attempt++) {
+      const result = await this.graphql<any>(
+        `query fileStatus($id: ID!) {
+          node(id: $id) {
+            ... on MediaImage { fileStatus image { url } fileErrors { message } }
+          }
+        }`,
+        { id: fileId }
+      );
+      const file = result.node;
+      if (file?.fileStatus === 'READY' && file.image?.url) {
+        return file.image.url;
+      }
+      if (file?.fileStatus === 'FAILED') {
+        throw new ShopifyApiError(422, 'fileCreate', file.fileErrors?.map((e: any) => e.message).join('; ') || 'File processing failed');
+      }
+      await sleep(intervalMs);
+    }
+    throw new ShopifyApiError(504, 'fileCreate', `File ${fileId} was not ready after ${attempts} checks`);
+  }
+
+  private throwOnUserErrors(operation: string, userErrors: Array<{ field?: string[]; message: string }> | undefined) {
+    if (userErrors?.length) {
+      throw new ShopifyApiError(422, operation, userErrors.map((e) => e.message).join('; '));
+    }
+  }
+
+  async createBlogPostWithImage(blogId: number, article: ShopifyArticleInput, imageUrl?: string, imageAlt?: string): Promise<ShopifyArticle> {
     if (imageUrl) {
       article.image = {
-        src: imageUrl
+        src: imageUrl,
+        alt: imageAlt,
       };
     }
     
-    return this.makeShopifyRequest(`blogs/${blogId}/articles.json`, 'POST', { article });
+    const response = await this.makeShopifyRequest(`blogs/${blogId}/articles.json`, 'POST', { article });
+    return response.article;
   }
 }
@@ -0,0 +1,203 @@
+import { z } from 'zod';
+import type { ShopifyAutobloggerAgent } from './index';
+import { modelConfigSchema } from './llm';
+import { PRODUCT_CARD_TEMPLATES } from './product-cards';
+import { DEFAULT_SHOPIFY_API_VERSION } from './shopify';
+import { IMAGE_STYLES } from './images';
+import { qualityThresholdsSchema } from './quality';
+import { cannibalizationSettingsSchema } from './cannibalization';
+import { backfillSettingsSchema } from './backfill';
+import { topicalMapSettingsSchema } from './topical-map';
+
+export const DEFAULT_SITE_ID = 'singleton';
+
+const fallbackLinkSchema = z.object({
+  url: z.string().url(),
+  title: z.string(),
+  primaryKeyword: z.string(),
+  contentType: z.enum(['blog', 'product', 'collection']),
+  score: z.number().default(0.5),
+});
+
+const libraryImageSchema = z.object({
+  url: z.string().url(),
+  alt: z.string(),
+  keywords: z.array(z.string()).min(1),
+});
+
+/**
+ * Configurations stored before sitemap discovery listed sitemaps per content type, those become additional sitemaps.
+ */
+function migrateSitemaps(value: unknown): unknown {
+  if (!value || typeof value !== 'object' || 'root' in value || 'additional' in value) {
+    return value;
+  }
+  const legacy = value as Record<string, unknown>;
+  const additional = ['blogs', 'products', 'collections'].flatMap((key) => (Array.isArray(legacy[key]) ? legacy[key] : []));
+  return { additional };
+}
+
+// Zod schema for the per-site configuration stored in each agent instance
+export const siteConfigSchema = z.object({
+  domain: z.string().url().transform((d) => d.replace(/\/+$/, '')),
+  brandName: z.string().min(1),
+  // Publisher logo used in the Article structured data
+  logoUrl: z.string().url().optional(),
+  // Public base URL of the IMAGES_BUCKET R2 bucket, used when Shopify Files uploads fail
+  r2PublicUrl: z.string().url().optional(),
+  images: z
+    .object({
+      style: z.enum(IMAGE_STYLES).default('editorial'),
+      // Extra art direction appended to every image prompt, e.g. brand colors
+      brandNotes: z.string().optional(),
+      bodyImages: z.number().int().min(0).max(5).default(3),
+      // Already hosted images reused for in-body placeholders whose prompt mentions one of their keywords
+      library: z.array(libraryImageSchema).default([]),
+    })
+    .default({}),
+  // Brand context and stance injected into the writing prompt
+  brandVoice: z.string().min(1),
+  niche: z.string().min(1),
+  seedTopics: z.array(z.string()).default([]),
+  feeds: z.object({
+    blog: z.array(z.string().url()).default([]),
+    product: z.array(z.string().url()).default([]),
+  }),
+  sitemaps: z.preprocess(
+    migrateSitemaps,
+    z
+      .object({
+        // Where discovery starts, defaults to /sitemap.xml on the domain
+        root: z.string().url().optional(),
+        // Sitemaps the root doesn't list
+        additional: z.array(z.string().url()).default([]),
+      })
+      .default({})
+  ),
+  fallbackLinks: z.array(fallbackLinkSchema).default([]),
+  shopify: z.object({
+    shopUrl: z.string().min(1),
+    // Name of the Worker secret holding the Admin API token, never the token itself
+    accessTokenSecret: z.string().default('SHOPIFY_ACCESS_TOKEN'),
+    apiVersion: z
+      .string()
+      .regex(/^(\d{4}-\d{2}|unstable)$/, 'must look like 2024-10')
+      .default(DEFAULT_SHOPIFY_API_VERSION),
+  }),
+  vectorizeNamespace: z.string().optional(),
+  productCards: z
+    .object({
+      template: z.enum(PRODUCT_CARD_TEMPLATES).default('inline'),
+      maxProducts: z.number().int().min(1).max(5).default(1),
+      // Minimum number of sections between two cards
+      minSectionGap: z.number().int().min(1).default(2),
+    })
+    .default({}),
+  // Checks every post must pass before it is published, see qualityThresholdsSchema
+  quality: qualityThresholdsSchema.default({}),
+  // How new posts are compared with existing ones targeting the same keyword
+  cannibalization: cannibalizationSettingsSchema.default({}),
+  // Links from older related articles to each new post, see backfillSettingsSchema
+  backfill: backfillSettingsSchema.default({}),
+  // Keyword clustering into pillars and clusters, see topicalMapSettingsSchema
+  topicalMap: topicalMapSettingsSchema.default({}),
+  // Per-stage provider and model overrides, see DEFAULT_MODELS for the stages
+  models: modelConfigSchema.default({}),
+});
+
+export type SiteConfig = z.infer<typeof siteConfigSchema>;
+export type FallbackLink = z.infer<typeof fallbackLinkSchema>;
+
+/**
+ * Configuration of the original Royal Pheromones deployment.
+ * Used for the default site until it is overridden with PUT /site, so existing installs keep working.
+ */
+export function legacySiteConfig(shopUrl: string): SiteConfig {
+  return siteConfigSchema.parse({
+    domain: 'https://royalpheromones.com',
+    brandName: 'Royal Pheromones',
+    brandVoice:
+      'The blog is for Royal Pheromones, the premier destination for Liquid Alchemy Labs pheromone products. Your content must be strongly PRO-PHEROMONE and enthusiastically promote the effectiveness of quality pheromone products. You are a passionate advocate, not a skeptic. Present pheromones as powerful, scientifically-backed tools for attraction and social success. Build excitement and confidence in pheromone technology. Counter skepticism with confidence and results.',
+    niche: 'pheromones',
+    seedTopics: ['pheromones', 'attraction', 'dating', 'confidence'],
+    feeds: {
+      blog: ['https://royalpheromones.com/a/rssfeed?type=blog&key=articles'],
+      product: ['https://royalpheromones.com/a/rssfeed'],
+    },
+    fallbackLinks: [
+      {
+        url: 'https://royalpheromones.com/collections/mens-pheromone-colognes',
+        title: "Men's Pheromone Colognes",
+        primaryKeyword: 'pheromone colognes for men',
+        contentType: 'collection',
+        score: 0.7,
+      },
+      {
+        url: 'https://royalpheromones.com/collections/womens-pheromone-perfumes',
+        title: "Women's Pheromone Perfumes",
+        primaryKeyword: 'pheromone perfumes for women',
+        contentType: 'collection',
+        score: 0.6,
+      },
+    ],
+    shopify: { shopUrl, accessTokenSecret: 'SHOPIFY_ACCESS_TOKEN', apiVersion: DEFAULT_SHOPIFY_API_VERSION },
+  });
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Applies a partial update to a configuration. Nested objects are merged key by key so an update to one
+ * setting keeps its siblings, arrays and other values replace the current ones, and null removes a key
+ * so it falls back to its default.
+ */
+export function mergeSiteConfig(current: unknown, update: unknown): unknown {
+  if (!isPlainObject(current) || !isPlainObject(update)) {
+    return update === null ? undefined : update;
+  }
+  const merged: Record<string, unknown> = { ...current };
+  for (const [key, value] of Object.entries(update)) {
+    merged[key] = mergeSiteConfig(current[key], value);
+  }
+  return merged;
+}
+
+export class SiteConfigManager {
+  private agent: ShopifyAutobloggerAgent;
+
+  constructor(agent: ShopifyAutobloggerAgent) {
+    this.agent = agent;
+  }
+
+  async initSchema(): Promise<void> {
+    await this.agent.sql`
+      CREATE TABLE IF NOT EXISTS site_config (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        config TEXT NOT NULL,
+        updated_at TEXT
+      );
+    `;
+  }
+
+  /**
+   * Returns the stored configuration, or undefined if this site has not been configured yet.
+   */
+  async getConfig(): Promise<SiteConfig | undefined> {
+    const rows = await this.agent.sql<{ config: string }>`SELECT config FROM site_config WHERE id = 1;`;
+    return rows.length > 0 ? siteConfigSchema.parse(JSON.parse(rows[0].config)) : undefined;
+  }
+
+  /**
+   * Stores a validated configuration, see mergeSiteConfig for applying partial updates.
+   */
+  async saveConfig(config: SiteConfig): Promise<SiteConfig> {
+    await this.agent.sql`
+      INSERT INTO site_config (id, config, updated_at)
+      VALUES (1, ${JSON.stringify(config)}, ${new Date().toISOString()})
+      ON CONFLICT(id) DO UPDATE SET config = excluded.config, updated_at = excluded.updated_at;
+    `;
+    return config;
+  }
+}
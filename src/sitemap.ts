@@ -1,70 +1,214 @@
+import type { SiteConfig } from './site-config';
+import { childText, parseXml } from './xml';
 
-import { z } from 'zod';
+// Leading locale segment of a storefront path, such as /fr or /en-ca
+const LOCALE_PREFIX = /^\/[a-z]{2}(?:-[a-z]{2,4})?(?=\/|$)/i;
 
-// Zod schema for parsing the <url> elements from the sitemap
-const urlSchema = z.object({
-  loc: z.string().url(),
-  lastmod: z.string().optional(),
-});
+// Stops runaway traversal of self-referencing or enormous sitemap indexes
+const MAX_SITEMAPS = 200;
+const MAX_DEPTH = 4;
 
-type SitemapUrl = z.infer<typeof urlSchema>;
+export type SitemapImage = {
+  loc: string;
+  title?: string;
+  caption?: string;
+};
+
+export type SitemapUrl = {
+  loc: string;
+  lastmod?: string;
+  images: SitemapImage[];
+};
+
+export type SitemapEntry = {
+  loc: string;
+  lastmod?: string;
+};
+
+export type ParsedSitemap =
+  | { kind: 'index'; sitemaps: SitemapEntry[] }
+  | { kind: 'urlset'; urls: SitemapUrl[] }
+  | { kind: 'unknown' };
+
+export type PageType = 'blog' | 'product' | 'collection' | 'page' | 'metaobject' | 'other';
+
+export type SiteUrls = {
+  blogPosts: SitemapUrl[];
+  products: SitemapUrl[];
+  collections: SitemapUrl[];
+  pages: SitemapUrl[];
+  metaobjects: SitemapUrl[];
+  other: SitemapUrl[];
+  // Every sitemap that was read, in traversal order
+  sitemaps: string[];
+  // Sitemaps that couldn't be loaded or parsed, so the lists above may be incomplete
+  failedSitemaps: string[];
+};
+
+/**
+ * Parses a sitemap or sitemap index, including the image sitemap extension.
+ */
+export function parseSitemapXml(xml: string): ParsedSitemap {
+  const document = parseXml(xml);
+  const top = document.children.find((child) => child.name === 'sitemapindex' || child.name === 'urlset');
+
+  if (top?.name === 'sitemapindex') {
+    const sitemaps = top.children
+      .filter((child) => child.name === 'sitemap')
+      .map((sitemap) => ({ loc: childText(sitemap, 'loc') ?? '', lastmod: childText(sitemap, 'lastmod') }))
+      .filter((entry) => entry.loc);
+    return { kind: 'index', sitemaps };
+  }
+
+  if (top?.name === 'urlset') {
+    const urls = top.children
+      .filter((child) => child.name === 'url')
+      .map((url) => ({
+        loc: childText(url, 'loc') ?? '',
+        lastmod: childText(url, 'lastmod'),
+        images: url.children
+          .filter((child) => child.name === 'image')
+          .map((image) => ({ loc: childText(image, 'loc') ?? '', title: childText(image, 'title'), caption: childText(image, 'caption') }))
+          .filter((image) => image.loc),
+      }))
+      .filter((url) => url.loc);
+    return { kind: 'urlset', urls };
+  }
+
+  return { kind: 'unknown' };
+}
+
+/**
+ * Classifies a storefront URL by its Shopify path, ignoring a leading locale segment such as /fr or /en-ca.
+ * Blog posts are /blogs/<blog>/<article>, the blog listing itself is "other". Metaobject web pages
+ * are /pages/<type>/<handle>.
+ */
+export function classifyUrl(url: string): PageType {
+  let path: string;
+  try {
+    path = new URL(url).pathname;
+  } catch {
+    return 'other';
+  }
+  path = path.replace(LOCALE_PREFIX, '').replace(/\/+$/, '');
+
+  if (/^\/blogs\/[^/]+\/[^/]+$/.test(path)) return 'blog';
+  if (/^\/products\/[^/]+$/.test(path)) return 'product';
+  if (/^\/collections\/[^/]+$/.test(path) && path !== '/collections/all') return 'collection';
+  if (/^\/pages\/[^/]+$/.test(path)) return 'page';
+  if (/^\/pages\/[^/]+\/[^/]+$/.test(path)) return 'metaobject';
+  return 'other';
+}
+
+/**
+ * The locale segment a URL's path starts with, lowercased, or undefined for the primary locale.
+ */
+export function localePrefix(url: string): string | undefined {
+  try {
+    return new URL(url).pathname.match(LOCALE_PREFIX)?.[0].substring(1).toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
+
+function isGzip(bytes: Uint8Array): boolean {
+  return bytes[0] === 0x1f && bytes[1] === 0x8b;
+}
 
 /**
- * Fetches and parses an XML sitemap, returning a list of URLs.
- * @param url The URL of the sitemap to fetch.
- * @returns A promise that resolves to an array of SitemapUrl objects.
+ * Fetches a sitemap's XML, decompressing gzipped sitemaps that the server didn't decode itself.
+ * @returns undefined when the sitemap can't be loaded.
  */
-async function parseSitemap(url: string): Promise<SitemapUrl[]> {
+async function fetchSitemapXml(url: string): Promise<string | undefined> {
   try {
     const response = await fetch(url);
     if (!response.ok) {
       console.error(`Failed to fetch sitemap: ${url} - Status: ${response.status}`);
-      return [];
+      return undefined;
     }
-    const xmlText = await response.text();
-    
-    // Basic XML parsing with regex to avoid heavy dependencies
-    const urlBlocks = xmlText.match(/<url>([\s\S]*?)<\/url>/g);
-    if (!urlBlocks) {
-      return [];
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    if (!isGzip(bytes)) {
+      return new TextDecoder().decode(bytes);
     }
-
-    const urls: SitemapUrl[] = urlBlocks.map(block => {
-      const locMatch = block.match(/<loc>([^<]+)<\/loc>/);
-      const lastmodMatch = block.match(/<lastmod>([^<]+)<\/lastmod>/);
-      return {
-        loc: locMatch ? locMatch[1] : '',
-        lastmod: lastmodMatch ? lastmodMatch[1] : undefined,
-      };
-    }).filter(url => url.loc); // Filter out any empty locations
-
-    return urls;
+    const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'));
+    return await new Response(stream).text();
   } catch (error) {
-    console.error(`Error parsing sitemap ${url}:`, error);
-    return [];
+    console.error(`Error fetching sitemap ${url}:`, error);
+    return undefined;
   }
 }
 
 /**
- * Fetches all pages from the Royal Pheromones sitemaps.
- * @returns A promise that resolves to an object containing lists of blog posts, products, and collections.
+ * Reads sitemaps starting from the given roots, following sitemap indexes recursively.
+ * Every sitemap is read at most once, and child sitemaps that fail `follow` aren't read at all.
  */
-export async function fetchAllSiteUrls() {
-  const sitemapUrls = {
-    blogs: 'https://royalpheromones.com/sitemap_blogs_1.xml',
-    products: 'https://royalpheromones.com/sitemap_products_1.xml',
-    collections: 'https://royalpheromones.com/sitemap_collections_1.xml?from=272732946526&to=276353908830',
-  };
+export async function crawlSitemaps(
+  roots: string[],
+  follow: (loc: string) => boolean = () => true
+): Promise<{ urls: SitemapUrl[]; sitemaps: string[]; failed: string[] }> {
+  const visited = new Set<string>();
+  const failed: string[] = [];
+  const urls = new Map<string, SitemapUrl>();
+  const queue = roots.map((loc) => ({ loc, depth: 0 }));
+
+  while (queue.length > 0 && visited.size < MAX_SITEMAPS) {
+    const { loc, depth } = queue.shift()!;
+    if (visited.has(loc)) continue;
+    visited.add(loc);
 
-  const [blogPosts, products, collections] = await Promise.all([
-    parseSitemap(sitemapUrls.blogs),
-    parseSitemap(sitemapUrls.products),
-    parseSitemap(sitemapUrls.collections),
-  ]);
+    const xml = await fetchSitemapXml(loc);
+    if (!xml) {
+      failed.push(loc);
+      continue;
+    }
+
+    const parsed = parseSitemapXml(xml);
+    if (parsed.kind === 'index') {
+      if (depth >= MAX_DEPTH) {
+        console.warn(`Sitemap index ${loc} is nested too deep, skipping its children`);
+        continue;
+      }
+      queue.push(...parsed.sitemaps.filter((entry) => follow(entry.loc)).map((entry) => ({ loc: entry.loc, depth: depth + 1 })));
+    } else if (parsed.kind === 'urlset') {
+      for (const url of parsed.urls) {
+        if (!urls.has(url.loc)) urls.set(url.loc, url);
+      }
+    } else {
+      console.warn(`${loc} is not a sitemap, skipping it`);
+      failed.push(loc);
+    }
+  }
 
-  return {
-    blogPosts,
-    products,
-    collections,
+  if (queue.length > 0) {
+    console.warn(`Stopped after ${MAX_SITEMAPS} sitemaps, ${queue.length} left unread`);
+  }
+  return { urls: [...urls.values()], sitemaps: [...visited], failed };
+}
+
+/**
+ * Fetches all pages of a site from its sitemaps and sorts them by page type.
+ * Discovery starts at /sitemap.xml on the site's domain unless another root is configured.
+ * Only the locale of the domain is kept, translated duplicates under /fr/ and the like are skipped.
+ */
+export async function fetchAllSiteUrls(domain: string, sitemaps: SiteConfig['sitemaps']): Promise<SiteUrls> {
+  const roots = [sitemaps.root || `${domain}/sitemap.xml`, ...sitemaps.additional];
+  const locale = localePrefix(domain);
+  const inLocale = (loc: string) => localePrefix(loc) === locale;
+  const crawled = await crawlSitemaps(roots, inLocale);
+  const urls = crawled.urls.filter((url) => inLocale(url.loc));
+  const read = crawled.sitemaps;
+
+  const result: SiteUrls = { blogPosts: [], products: [], collections: [], pages: [], metaobjects: [], other: [], sitemaps: read, failedSitemaps: crawled.failed };
+  const buckets: Record<PageType, SitemapUrl[]> = {
+    blog: result.blogPosts,
+    product: result.products,
+    collection: result.collections,
+    page: result.pages,
+    metaobject: result.metaobjects,
+    other: result.other,
   };
+  for (const url of urls) {
+    buckets[classifyUrl(url.loc)].push(url);
+  }
+  return result;
 }
@@ -0,0 +1,184 @@
+import { z } from 'zod';
+
+// Google truncates longer headlines in rich results
+const MAX_HEADLINE_LENGTH = 110;
+
+const organizationSchema = z.object({
+  '@type': z.literal('Organization'),
+  name: z.string().min(1),
+  url: z.string().url(),
+  logo: z.object({ '@type': z.literal('ImageObject'), url: z.string().url() }).optional(),
+});
+
+// Zod schema for the Article JSON-LD emitted with every post
+export const articleJsonLdSchema = z.object({
+  '@context': z.literal('https://schema.org'),
+  '@type': z.literal('Article'),
+  headline: z.string().min(1).max(MAX_HEADLINE_LENGTH),
+  description: z.string().min(1),
+  mainEntityOfPage: z.object({ '@type': z.literal('WebPage'), '@id': z.string().url() }),
+  image: z.array(z.string().url()).optional(),
+  author: z.object({ '@type': z.literal('Person'), name: z.string().min(1) }),
+  publisher: organizationSchema,
+  datePublished: z.string().datetime(),
+  dateModified: z.string().datetime(),
+  keywords: z.string().optional(),
+});
+
+export const breadcrumbListJsonLdSchema = z.object({
+  '@context': z.literal('https://schema.org'),
+  '@type': z.literal('BreadcrumbList'),
+  itemListElement: z
+    .array(
+      z.object({
+        '@type': z.literal('ListItem'),
+        position: z.number().int().positive(),
+        name: z.string().min(1),
+        item: z.string().url(),
+      })
+    )
+    .min(1)
+    .refine((items) => items.every((item, i) => item.position === i + 1), 'positions must start at 1 and be sequential'),
+});
+
+export const faqPageJsonLdSchema = z.object({
+  '@context': z.literal('https://schema.org'),
+  '@type': z.literal('FAQPage'),
+  mainEntity: z
+    .array(
+      z.object({
+        '@type': z.literal('Question'),
+        name: z.string().min(1),
+        acceptedAnswer: z.object({ '@type': z.literal('Answer'), text: z.string().min(1) }),
+      })
+    )
+    .min(1),
+});
+
+export type ArticleJsonLd = z.infer<typeof articleJsonLdSchema>;
+export type BreadcrumbListJsonLd = z.infer<typeof breadcrumbListJsonLdSchema>;
+export type FaqPageJsonLd = z.infer<typeof faqPageJsonLdSchema>;
+
+export type StructuredDataInput = {
+  headline: string;
+  description: string;
+  url: string;
+  authorName: string;
+  publisherName: string;
+  publisherUrl: string;
+  publisherLogoUrl?: string;
+  imageUrl?: string;
+  datePublished: string;
+  tags?: string[];
+  breadcrumbs?: Array<{ name: string; url: string }>;
+  // Must match the questions and answers shown on the page
+  faqs?: Array<{ question: string; answer: string }>;
+};
+
+/**
+ * Thrown when the JSON-LD built for an article doesn't match the expected shape.
+ */
+export class StructuredDataError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid structured data: ${issues.join('; ')}`);
+    this.name = 'StructuredDataError';
+    this.issues = issues;
+  }
+}
+
+export function buildArticleJsonLd(input: StructuredDataInput): ArticleJsonLd {
+  const headline =
+    input.headline.length > MAX_HEADLINE_LENGTH ? `${input.headline.substring(0, MAX_HEADLINE_LENGTH - 1).trimEnd()}…` : input.headline;
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Article',
+    headline,
+    description: input.description,
+    mainEntityOfPage: { '@type': 'WebPage', '@id': input.url },
+    image: input.imageUrl ? [input.imageUrl] : undefined,
+    author: { '@type': 'Person', name: input.authorName },
+    publisher: {
+      '@type': 'Organization',
+      name: input.publisherName,
+      url: input.publisherUrl,
+      logo: input.publisherLogoUrl ? { '@type': 'ImageObject', url: input.publisherLogoUrl } : undefined,
+    },
+    datePublished: input.datePublished,
+    dateModified: input.datePublished,
+    keywords: input.tags?.length ? input.tags.join(', ') : undefined,
+  };
+}
+
+export function buildBreadcrumbListJsonLd(breadcrumbs: Array<{ name: string; url: string }>): BreadcrumbListJsonLd {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'BreadcrumbList',
+    itemListElement: breadcrumbs.map((crumb, i) => ({
+      '@type': 'ListItem',
+      position: i + 1,
+      name: crumb.name,
+      item: crumb.url,
+    })),
+  };
+}
+
+export function buildFaqPageJsonLd(faqs: Array<{ question: string; answer: string }>): FaqPageJsonLd {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'FAQPage',
+    mainEntity: faqs.map((faq) => ({
+      '@type': 'Question',
+      name: faq.question,
+      acceptedAnswer: { '@type': 'Answer', text: faq.answer },
+    })),
+  };
+}
+
+const JSON_LD_SCHEMAS: Record<string, z.ZodTypeAny> = {
+  Article: articleJsonLdSchema,
+  BreadcrumbList: breadcrumbListJsonLdSchema,
+  FAQPage: faqPageJsonLdSchema,
+};
+
+/**
+ * Checks a JSON-LD block against the schema for its @type and returns the problems found.
+ */
+export function validateJsonLd(data: unknown): string[] {
+  const type = typeof data === 'object' && data && '@type' in data ? data['@type'] : undefined;
+  const schema = typeof type === 'string' ? JSON_LD_SCHEMAS[type] : undefined;
+  if (!schema) {
+    return [`unsupported @type ${JSON.stringify(type)}`];
+  }
+
+  const result = schema.safeParse(data);
+  return result.success ? [] : result.error.issues.map((issue) => `${type}.${issue.path.join('.') || '(root)'} ${issue.message}`);
+}
+
+function renderScript(data: unknown): string {
+  // Escape "<" so the JSON can never close the script tag early
+  return `<script type="application/ld+json">${JSON.stringify(data).replace(/</g, '\\u003c')}</script>`;
+}
+
+/**
+ * Builds and validates the Article JSON-LD for a post, plus BreadcrumbList and FAQPage blocks
+ * when breadcrumbs or FAQs are given, returning the script tags to append to its body.
+ * @throws StructuredDataError when any block fails validation.
+ */
+export function renderStructuredData(input: StructuredDataInput): string {
+  const blocks: unknown[] = [buildArticleJsonLd(input)];
+  if (input.breadcrumbs?.length) {
+    blocks.push(buildBreadcrumbListJsonLd(input.breadcrumbs));
+  }
+  if (input.faqs?.length) {
+    blocks.push(buildFaqPageJsonLd(input.faqs));
+  }
+
+  const issues = blocks.flatMap(validateJsonLd);
+  if (issues.length > 0) {
+    throw new StructuredDataError(issues);
+  }
+  return blocks.map(renderScript).join('\n');
+}
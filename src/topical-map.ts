@@ -0,0 +1,318 @@
+import { z } from 'zod';
+import type { ShopifyAutobloggerAgent } from './index';
+import type { ModelRouter } from './llm';
+import type { Keyword } from './keywords';
+import { cosineSimilarity, type InternalLink } from './link-audit';
+import { linksTo } from './backfill';
+
+// Keywords are embedded in batches of this size
+const EMBED_BATCH_SIZE = 100;
+// Weight of a keyword's priority score (1-10) when choosing the pillar, so it only breaks near ties
+const PILLAR_PRIORITY_WEIGHT = 0.005;
+// Most cluster posts a pillar post is asked to link to
+const MAX_CLUSTER_LINKS = 8;
+
+// Zod schema for the topical map settings in the site configuration
+export const topicalMapSettingsSchema = z.object({
+  // Minimum similarity between a keyword and a cluster's centre for the keyword to join it
+  clusterThreshold: z.number().min(0).max(1).default(0.8),
+  maxClusterSize: z.number().int().min(2).default(30),
+  // Link cluster posts to their pillar and the pillar to its cluster posts
+  linkClusters: z.boolean().default(true),
+});
+
+export type TopicalMapSettings = z.infer<typeof topicalMapSettingsSchema>;
+
+export type ClusterInput = { id: string; priority: number; embedding: number[] };
+
+export type KeywordCluster = {
+  pillarId: string;
+  // Member ids with their similarity to the cluster centre, the pillar included
+  members: Array<{ id: string; similarity: number }>;
+};
+
+// A keyword is published once its post is live on the site, a draft while its post is saved but not live
+export type CoverageStatus = 'published' | 'draft' | 'new';
+
+export type TopicalMapKeyword = {
+  id: string;
+  keyword: string;
+  priority_score: number;
+  intent: string;
+  status: CoverageStatus;
+  url: string | null;
+  similarity: number;
+};
+
+export type TopicCluster = {
+  id: string;
+  name: string;
+  pillar: TopicalMapKeyword;
+  keywords: TopicalMapKeyword[];
+  coverage: { published: number; total: number; percent: number; pillarPublished: boolean };
+};
+
+export type TopicalMap = {
+  built_at: string | null;
+  clusters: TopicCluster[];
+  totals: { clusters: number; keywords: number; published: number };
+};
+
+// A keyword's place in the map, used to link posts within their cluster
+export type ClusterContext = {
+  cluster: TopicCluster;
+  isPillar: boolean;
+};
+
+type ClusterRow = {
+  cluster_id: string;
+  cluster_name: string;
+  is_pillar: number;
+  similarity: number;
+  built_at: string;
+  id: string;
+  keyword: string;
+  priority_score: number;
+  intent: string;
+  status: string;
+  article_url: string | null;
+  inventory_url: string | null;
+};
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+  return vector.map((v) => v / norm);
+}
+
+function centroid(vectors: number[][]): number[] {
+  const sum = new Array(vectors[0].length).fill(0);
+  for (const vector of vectors) {
+    for (let i = 0; i < vector.length; i++) sum[i] += vector[i];
+  }
+  return normalize(sum);
+}
+
+/**
+ * Groups keyword embeddings into topic clusters. Keywords are taken in priority order and each joins
+ * the cluster whose centre it is most similar to, if that is above the threshold and the cluster has
+ * room, or starts a new one. The pillar of each cluster is its most central keyword, with priority
+ * only breaking near ties.
+ */
+export function clusterKeywords(items: ClusterInput[], settings: Pick<TopicalMapSettings, 'clusterThreshold' | 'maxClusterSize'>): KeywordCluster[] {
+  const sorted = [...items].sort((a, b) => b.priority - a.priority);
+  const clusters: Array<{ members: ClusterInput[]; vectors: number[][]; centre: number[] }> = [];
+
+  for (const item of sorted) {
+    const vector = normalize(item.embedding);
+    let best: (typeof clusters)[number] | undefined;
+    let bestScore = settings.clusterThreshold;
+    for (const cluster of clusters) {
+      if (cluster.members.length >= settings.maxClusterSize) continue;
+      const score = cosineSimilarity(vector, cluster.centre);
+      if (score >= bestScore) {
+        best = cluster;
+        bestScore = score;
+      }
+    }
+    if (best) {
+      best.members.push(item);
+      best.vectors.push(vector);
+      best.centre = centroid(best.vectors);
+    } else {
+      clusters.push({ members: [item], vectors: [vector], centre: vector });
+    }
+  }
+
+  return clusters.map(({ members, vectors, centre }) => {
+    const scored = members.map((member, i) => {
+      const others = vectors.filter((_, j) => j !== i);
+      const centrality = others.length > 0 ? others.reduce((sum, other) => sum + cosineSimilarity(vectors[i], other), 0) / others.length : 1;
+      return { id: member.id, similarity: cosineSimilarity(vectors[i], centre), rank: centrality + PILLAR_PRIORITY_WEIGHT * member.priority };
+    });
+    const pillar = scored.reduce((best, member) => (member.rank > best.rank ? member : best));
+    return {
+      pillarId: pillar.id,
+      members: scored.map(({ id, similarity }) => ({ id, similarity: Math.round(similarity * 1000) / 1000 })),
+    };
+  });
+}
+
+/**
+ * Inserts a link to the pillar page when the article doesn't have one yet, as a closing paragraph.
+ */
+export function ensurePillarLink(html: string, pillar: { url: string; title: string }): string {
+  if (linksTo(html, pillar.url)) return html;
+  const title = pillar.title.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  const paragraph = `<p>For the bigger picture, read our complete guide to <a href="${pillar.url}">${title}</a>.</p>`;
+  return `${html}\n${paragraph}`;
+}
+
+/**
+ * Pillar and cluster links for a post, marked with their role for the writer.
+ * A cluster post gets its published pillar, a pillar post gets its published cluster posts.
+ */
+export function clusterLinks(context: ClusterContext): InternalLink[] {
+  const toLink = (entry: TopicalMapKeyword, role: 'pillar' | 'cluster'): InternalLink => ({
+    url: entry.url ?? '',
+    title: entry.keyword,
+    primaryKeyword: entry.keyword,
+    contentType: 'blog',
+    score: 1,
+    role,
+  });
+  if (!context.isPillar) {
+    return context.cluster.pillar.status === 'published' ? [toLink(context.cluster.pillar, 'pillar')] : [];
+  }
+  return context.cluster.keywords
+    .filter((entry) => entry.id !== context.cluster.pillar.id && entry.status === 'published')
+    .slice(0, MAX_CLUSTER_LINKS)
+    .map((entry) => toLink(entry, 'cluster'));
+}
+
+/**
+ * Topical map of the keywords table: embedding-based clusters, each with a pillar keyword whose post is
+ * the hub the rest of the cluster links to.
+ */
+export class TopicalMapManager {
+  private agent: ShopifyAutobloggerAgent;
+  private llm: ModelRouter;
+
+  constructor(agent: ShopifyAutobloggerAgent, llm: ModelRouter) {
+    this.agent = agent;
+    this.llm = llm;
+  }
+
+  async initSchema(): Promise<void> {
+    await this.agent.sql`
+      CREATE TABLE IF NOT EXISTS topic_clusters (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        pillar_keyword_id TEXT NOT NULL,
+        built_at TEXT NOT NULL
+      );
+    `;
+    await this.agent.sql`
+      CREATE TABLE IF NOT EXISTS topic_cluster_keywords (
+        keyword_id TEXT PRIMARY KEY,
+        cluster_id TEXT NOT NULL,
+        is_pillar INTEGER DEFAULT 0,
+        similarity REAL
+      );
+    `;
+  }
+
+  /**
+   * Re-clusters every keyword and replaces the stored map.
+   */
+  async build(keywords: Keyword[], settings: TopicalMapSettings): Promise<TopicalMap> {
+    console.log(`🗺️ Clustering ${keywords.length} keywords...`);
+    const embeddings: number[][] = [];
+    for (let i = 0; i < keywords.length; i += EMBED_BATCH_SIZE) {
+      embeddings.push(...(await this.llm.embed(keywords.slice(i, i + EMBED_BATCH_SIZE).map((kw) => kw.keyword))));
+    }
+    const clusters = clusterKeywords(
+      keywords.map((kw, i) => ({ id: kw.id, priority: kw.priority_score ?? 0, embedding: embeddings[i] })),
+      settings
+    );
+    const byId = new Map(keywords.map((kw) => [kw.id, kw]));
+
+    const builtAt = new Date().toISOString();
+    await this.agent.sql`DELETE FROM topic_cluster_keywords;`;
+    await this.agent.sql`DELETE FROM topic_clusters;`;
+    for (const cluster of clusters) {
+      const id = crypto.randomUUID();
+      const name = byId.get(cluster.pillarId)?.keyword ?? '';
+      await this.agent.sql`
+        INSERT INTO topic_clusters (id, name, pillar_keyword_id, built_at) VALUES (${id}, ${name}, ${cluster.pillarId}, ${builtAt});
+      `;
+      for (const member of cluster.members) {
+        await this.agent.sql`
+          INSERT INTO topic_cluster_keywords (keyword_id, cluster_id, is_pillar, similarity)
+          VALUES (${member.id}, ${id}, ${member.id === cluster.pillarId ? 1 : 0}, ${member.similarity});
+        `;
+      }
+    }
+    console.log(`✅ Topical map built: ${clusters.length} clusters`);
+    return this.getMap();
+  }
+
+  /**
+   * The stored clusters with the current coverage of each. Keywords added since the last build aren't in the map.
+   * A post counts as published once the content sync finds it on the site, drafts never reach the inventory.
+   */
+  async getMap(): Promise<TopicalMap> {
+    const rows = await this.agent.sql<ClusterRow>`
+      SELECT c.id AS cluster_id, c.name AS cluster_name, c.built_at, m.is_pillar, m.similarity,
+        k.id, k.keyword, k.priority_score, k.intent, k.status, k.article_url, i.url AS inventory_url
+      FROM topic_clusters c
+      JOIN topic_cluster_keywords m ON m.cluster_id = c.id
+      JOIN keywords k ON k.id = m.keyword_id
+      LEFT JOIN content_inventory i ON i.url = k.article_url
+      ORDER BY c.name, m.is_pillar DESC, k.priority_score DESC;
+    `;
+
+    const clusters = new Map<string, TopicCluster>();
+    for (const row of rows) {
+      const entry: TopicalMapKeyword = {
+        id: row.id,
+        keyword: row.keyword,
+        priority_score: row.priority_score,
+        intent: row.intent,
+        status: row.status !== 'used' || !row.article_url ? 'new' : row.inventory_url ? 'published' : 'draft',
+        url: row.article_url || null,
+        similarity: row.similarity,
+      };
+      let cluster = clusters.get(row.cluster_id);
+      if (!cluster) {
+        cluster = {
+          id: row.cluster_id,
+          name: row.cluster_name,
+          pillar: entry,
+          keywords: [],
+          coverage: { published: 0, total: 0, percent: 0, pillarPublished: false },
+        };
+        clusters.set(row.cluster_id, cluster);
+      }
+      if (row.is_pillar) {
+        cluster.pillar = entry;
+      }
+      cluster.keywords.push(entry);
+    }
+
+    for (const cluster of clusters.values()) {
+      const published = cluster.keywords.filter((kw) => kw.status === 'published').length;
+      cluster.coverage = {
+        published,
+        total: cluster.keywords.length,
+        percent: Math.round((published / cluster.keywords.length) * 100),
+        pillarPublished: cluster.pillar.status === 'published',
+      };
+    }
+
+    const list = [...clusters.values()].sort((a, b) => b.keywords.length - a.keywords.length);
+    return {
+      built_at: rows[0]?.built_at ?? null,
+      clusters: list,
+      totals: {
+        clusters: list.length,
+        keywords: rows.length,
+        published: list.reduce((sum, cluster) => sum + cluster.coverage.published, 0),
+      },
+    };
+  }
+
+  /**
+   * The cluster a keyword belongs to, or undefined when the keyword isn't in the map.
+   */
+  async getClusterContext(keyword: string): Promise<ClusterContext | undefined> {
+    const [row] = await this.agent.sql<{ cluster_id: string; is_pillar: number }>`
+      SELECT m.cluster_id, m.is_pillar
+      FROM topic_cluster_keywords m JOIN keywords k ON k.id = m.keyword_id
+      WHERE k.keyword = ${keyword}
+      LIMIT 1;
+    `;
+    if (!row) return undefined;
+    const cluster = (await this.getMap()).clusters.find((c) => c.id === row.cluster_id);
+    return cluster ? { cluster, isPillar: row.is_pillar === 1 } : undefined;
+  }
+}
@@ -0,0 +1,188 @@
+export type XmlElement = {
+  // Local name, lowercased and without its namespace prefix
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  // Decoded character data directly inside the element, including CDATA sections
+  text: string;
+  // Offsets of the element's content in the source, for reading embedded markup such as Atom xhtml
+  innerStart: number;
+  innerEnd: number;
+};
+
+const NAMED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+// Common HTML entities that feeds double-encode in titles and excerpts
+const HTML_ENTITIES: Record<string, string> = {
+  ...NAMED_ENTITIES,
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  laquo: '«',
+  raquo: '»',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  deg: '°',
+  eacute: 'é',
+  egrave: 'è',
+  agrave: 'à',
+  ccedil: 'ç',
+  uuml: 'ü',
+  ouml: 'ö',
+  auml: 'ä',
+};
+
+function decodeWith(text: string, entities: Record<string, string>): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+\d*);/gi, (entity, body: string) => {
+    if (body[0] === '#') {
+      const code = body[1] === 'x' || body[1] === 'X' ? Number.parseInt(body.slice(2), 16) : Number(body.slice(1));
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return entities[body] ?? entities[body.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Decodes the XML predefined entities and numeric character references. Unknown entities are kept as-is.
+ */
+export function decodeXmlEntities(text: string): string {
+  return decodeWith(text, NAMED_ENTITIES);
+}
+
+/**
+ * Decodes the common named HTML entities as well as the XML ones.
+ */
+export function decodeHtmlEntities(text: string): string {
+  return decodeWith(text, HTML_ENTITIES);
+}
+
+function localName(name: string): string {
+  const colon = name.indexOf(':');
+  return (colon >= 0 ? name.substring(colon + 1) : name).toLowerCase();
+}
+
+/**
+ * Finds the > that ends a tag, skipping any inside quoted attribute values.
+ */
+function tagEnd(xml: string, from: number): number {
+  let quote = '';
+  for (let i = from; i < xml.length; i++) {
+    const char = xml[i];
+    if (quote) {
+      if (char === quote) quote = '';
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/([^\s=/]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g)) {
+    attributes[localName(match[1])] = decodeXmlEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+}
+
+/**
+ * Parses XML into an element tree. Namespace prefixes are dropped from element and attribute names,
+ * and comments, processing instructions and doctypes are skipped. Tolerates unclosed elements by
+ * closing them at the end of their parent.
+ */
+export function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '', innerStart: 0, innerEnd: xml.length };
+  const stack: XmlElement[] = [root];
+  let i = 0;
+
+  while (i < xml.length) {
+    const lt = xml.indexOf('<', i);
+    const current = stack[stack.length - 1];
+    if (lt < 0) {
+      current.text += decodeXmlEntities(xml.substring(i));
+      break;
+    }
+    if (lt > i) {
+      current.text += decodeXmlEntities(xml.substring(i, lt));
+    }
+
+    if (xml.startsWith('<![CDATA[', lt)) {
+      const end = xml.indexOf(']]>', lt + 9);
+      current.text += xml.substring(lt + 9, end < 0 ? xml.length : end);
+      i = end < 0 ? xml.length : end + 3;
+      continue;
+    }
+    if (xml.startsWith('<!--', lt)) {
+      const end = xml.indexOf('-->', lt + 4);
+      i = end < 0 ? xml.length : end + 3;
+      continue;
+    }
+    if (xml.startsWith('<?', lt) || xml.startsWith('<!', lt)) {
+      const end = xml.indexOf('>', lt);
+      i = end < 0 ? xml.length : end + 1;
+      continue;
+    }
+
+    const gt = tagEnd(xml, lt);
+    if (gt < 0) break;
+    const tag = xml.substring(lt + 1, gt).trim();
+    i = gt + 1;
+
+    if (tag.startsWith('/')) {
+      const name = localName(tag.substring(1).trim());
+      // Pop back to the matching element, closing anything left open inside it
+      const index = stack.map((el) => el.name).lastIndexOf(name);
+      if (index > 0) {
+        stack[index].innerEnd = lt;
+        for (let j = index + 1; j < stack.length; j++) {
+          stack[j].innerEnd = lt;
+        }
+        stack.length = index;
+      }
+      continue;
+    }
+
+    const selfClosing = tag.endsWith('/');
+    const source = selfClosing ? tag.slice(0, -1) : tag;
+    const nameEnd = source.search(/\s/);
+    const element: XmlElement = {
+      name: localName(nameEnd < 0 ? source : source.substring(0, nameEnd)),
+      attributes: nameEnd < 0 ? {} : parseAttributes(source.substring(nameEnd)),
+      children: [],
+      text: '',
+      innerStart: i,
+      innerEnd: i,
+    };
+    current.children.push(element);
+    if (!selfClosing) {
+      element.innerEnd = xml.length;
+      stack.push(element);
+    }
+  }
+
+  return root;
+}
+
+export function childElement(element: XmlElement, name: string): XmlElement | undefined {
+  return element.children.find((child) => child.name === name);
+}
+
+export function childElements(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter((child) => child.name === name);
+}
+
+/**
+ * Trimmed text of the first child with the given name, or undefined when it is missing or empty.
+ */
+export function childText(element: XmlElement, name: string): string | undefined {
+  const text = childElement(element, name)?.text.trim();
+  return text || undefined;
+}
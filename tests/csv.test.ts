@@ -0,0 +1,73 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { parseCsv, parseCsvObjects, toCsv } from '../src/csv';
+import { KEYWORD_EXPORT_COLUMNS } from '../src/keywords';
+
+const fixturesDir = join(__dirname, 'fixtures', 'csv');
+const fixture = (name: string) => readFileSync(join(fixturesDir, name), 'utf8');
+
+describe('parseCsv', () => {
+  it('reads quoted commas, doubled quotes and embedded newlines', () => {
+    const records = parseCsv(fixture('keywords.csv'));
+    expect(records[1]).toEqual(['pheromone cologne', 'Mention the 50ml size, and the gift box', 'fragrance']);
+    expect(records[2]).toEqual(['best "alpha" scent', 'First line\r\nsecond line', '']);
+  });
+
+  it('strips the BOM and skips blank and "#" lines between records', () => {
+    const records = parseCsv(fixture('keywords.csv'));
+    expect(records[0]).toEqual(['Keyword', 'User_Prompt', ' Topic ']);
+    expect(records.map((record) => record[0])).toEqual(['Keyword', 'pheromone cologne', 'best "alpha" scent', 'how to apply cologne', '  spaced keyword  ']);
+  });
+
+  it('keeps "#" inside a record and reads a last record without a line break', () => {
+    const records = parseCsv(fixture('generated.csv'));
+    expect(records).toEqual([
+      ['keyword', 'priority_score', 'intent'],
+      ['what are pheromones', '8', 'informational'],
+      ['does cologne #1 work', '6', 'commercial'],
+      ['last row without newline', '5', 'informational'],
+    ]);
+  });
+
+  it('reads empty fields and empty input', () => {
+    expect(parseCsv('a,,c\n,\n')).toEqual([
+      ['a', '', 'c'],
+      ['', ''],
+    ]);
+    expect(parseCsv('')).toEqual([]);
+  });
+});
+
+describe('parseCsvObjects', () => {
+  it('keys rows by the lowercased, trimmed header names', () => {
+    const [first, , third] = parseCsvObjects(fixture('keywords.csv'));
+    expect(first).toEqual({ keyword: 'pheromone cologne', user_prompt: 'Mention the 50ml size, and the gift box', topic: 'fragrance' });
+    expect(third).toEqual({ keyword: 'how to apply cologne', user_prompt: '', topic: '' });
+  });
+});
+
+describe('toCsv', () => {
+  it('quotes only the fields that need it and ends lines with CRLF', () => {
+    const csv = toCsv(['keyword', 'note'], [
+      { keyword: 'plain', note: null },
+      { keyword: 'a, b', note: 'say "hi"' },
+      { keyword: '#1 pick', note: ' padded ' },
+    ]);
+    expect(csv).toBe('keyword,note\r\nplain,\r\n"a, b","say ""hi"""\r\n"#1 pick"," padded "\r\n');
+  });
+
+  it('round-trips an export through the parser', () => {
+    const rows = parseCsvObjects(fixture('keywords.csv')).map((row, i) => ({
+      ...row,
+      priority_score: String(9 - i),
+      intent: 'informational',
+      difficulty: '',
+      content_angle: 'Compare, then "recommend"',
+      status: 'new',
+      article_url: '',
+      created_date: '2025-06-01T10:15:00.000Z',
+    }));
+    expect(parseCsvObjects(toCsv(KEYWORD_EXPORT_COLUMNS, rows))).toEqual(rows);
+  });
+});
@@ -0,0 +1,143 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fetchFeeds, parseFeedXml, validateFeedItems } from '../src/feeds';
+
+const fixturesDir = join(__dirname, 'fixtures', 'feeds');
+const fixture = (name: string) => readFileSync(join(fixturesDir, name), 'utf8');
+
+const DOMAIN = 'https://shop.example.com';
+
+// Feed URLs served by the mocked fetch, the last page of each feed links to a page that doesn't exist
+const routes: Record<string, () => string> = {
+  [`${DOMAIN}/blogs/news.rss`]: () => fixture('rss.xml'),
+  [`${DOMAIN}/blogs/guides.atom`]: () => fixture('atom.xml'),
+  [`${DOMAIN}/blogs/guides.atom?page=2`]: () => fixture('atom-page-2.xml'),
+  [`${DOMAIN}/blogs/html`]: () => '<!DOCTYPE html><html><body>Not a feed</body></html>',
+};
+
+describe('parseFeedXml', () => {
+  it('reads RSS 2.0 items with CDATA, entities, categories and media images', () => {
+    const parsed = parseFeedXml(fixture('rss.xml'), `${DOMAIN}/blogs/news.rss`);
+    expect(parsed.kind).toBe('rss');
+    expect(parsed.title).toBe('Shop Example & Co. News');
+    expect(parsed.items).toHaveLength(3);
+
+    const [first] = parsed.items;
+    expect(first.id).toBe('gid://shopify/Article/1001');
+    expect(first.title).toBe('How Pheromones Really Work');
+    expect(first.link).toBe(`${DOMAIN}/blogs/news/how-pheromones-work`);
+    expect(first.pubDate).toBe('2025-06-02T18:30:00.000Z');
+    expect(first.author).toBe('Jane & John');
+    expect(first.categories).toEqual(['Science', 'Guides']);
+    // The video is skipped, relative <img> sources are resolved and their entities decoded
+    expect(first.images).toEqual(['https://cdn.shopify.com/s/files/hero.jpg', `${DOMAIN}/cdn/body.jpg?v=1&w=800`]);
+  });
+
+  it('prefers content:encoded over the description', () => {
+    const [first, second] = parseFeedXml(fixture('rss.xml'), `${DOMAIN}/blogs/news.rss`).items;
+    expect(first.description).toContain('<p>Full post with a <a href="/products/alpha">link</a>.</p>');
+    expect(first.h1).toBe('How Pheromones “Work”');
+
+    // Without content:encoded the escaped description is the content, and the title stands in for the h1
+    expect(second.description).toBe('<p>Only a description here.</p>');
+    expect(second.h1).toBe('Choosing a Scent');
+    expect(second.link).toBe(`${DOMAIN}/blogs/guides/choosing-a-scent`);
+    expect(second.pubDate).toBe('not a date');
+    expect(second.images).toEqual(['https://cdn.shopify.com/s/files/scent.png']);
+  });
+
+  it('reads the next page of a paged RSS feed from its atom:link', () => {
+    expect(parseFeedXml(fixture('rss.xml'), `${DOMAIN}/blogs/news.rss`).next).toBe(`${DOMAIN}/blogs/news.rss?page=2`);
+  });
+
+  it('reads Atom entries with xhtml content', () => {
+    const parsed = parseFeedXml(fixture('atom.xml'), `${DOMAIN}/blogs/guides.atom`);
+    expect(parsed.kind).toBe('atom');
+    expect(parsed.title).toBe('Shop Example Guides');
+    expect(parsed.next).toBe(`${DOMAIN}/blogs/guides.atom?page=2`);
+
+    const [first, second] = parsed.items;
+    expect(first.id).toBe('tag:shop.example.com,2025:Article/2001');
+    expect(first.title).toBe('Layering & Longevity');
+    expect(first.link).toBe(`${DOMAIN}/blogs/guides/layering`);
+    expect(first.pubDate).toBe('2025-05-20T08:00:00.000Z');
+    expect(first.author).toBe('Jane Doe, John Roe');
+    expect(first.categories).toEqual(['Longevity Tips']);
+    expect(first.images).toEqual(['https://cdn.shopify.com/s/files/layering.jpg']);
+    // The wrapping div and the namespace prefixes are dropped
+    expect(first.description).toMatch(/^<h1>Layering Scents<\/h1>\s*<p>Apply the <strong>base<\/strong> first\.<\/p>$/);
+    expect(first.h1).toBe('Layering Scents');
+
+    // Text summaries are escaped into HTML, and the updated date stands in for a missing published date
+    expect(second.description).toBe('Tips &lt; tricks');
+    expect(second.link).toBe(`${DOMAIN}/blogs/guides/summary-only`);
+    expect(second.pubDate).toBe('2025-04-01T00:00:00.000Z');
+  });
+
+  it('returns unknown for documents that are not feeds', () => {
+    expect(parseFeedXml(routes[`${DOMAIN}/blogs/html`](), DOMAIN)).toEqual({ kind: 'unknown', items: [] });
+  });
+});
+
+describe('validateFeedItems', () => {
+  it('rejects items that fail the schema and reports why', () => {
+    const feed = `${DOMAIN}/blogs/news.rss`;
+    const { items, rejected } = validateFeedItems(feed, parseFeedXml(fixture('rss.xml'), feed).items);
+    expect(items.map((item) => item.title)).toEqual(['How Pheromones Really Work', 'Choosing a Scent']);
+    expect(rejected).toEqual([
+      { feed, id: 'gid://shopify/Article/1003', link: undefined, title: 'Draft without a link', errors: ['link: Required'] },
+    ]);
+  });
+});
+
+describe('fetchFeeds', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string) => {
+        const route = routes[url];
+        return route ? new Response(route()) : new Response('Not found', { status: 404 });
+      })
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('follows next links and reports the pages that failed to load', async () => {
+    const result = await fetchFeeds([`${DOMAIN}/blogs/guides.atom`, `${DOMAIN}/blogs/news.rss`, `${DOMAIN}/blogs/html`]);
+    expect(result.items.map((item) => item.link)).toEqual([
+      `${DOMAIN}/blogs/guides/layering`,
+      `${DOMAIN}/blogs/guides/summary-only`,
+      `${DOMAIN}/blogs/guides/older`,
+      `${DOMAIN}/blogs/news/how-pheromones-work`,
+      `${DOMAIN}/blogs/guides/choosing-a-scent`,
+    ]);
+    expect(result.pages).toEqual([
+      `${DOMAIN}/blogs/guides.atom`,
+      `${DOMAIN}/blogs/guides.atom?page=2`,
+      `${DOMAIN}/blogs/guides.atom?page=3`,
+      `${DOMAIN}/blogs/news.rss`,
+      `${DOMAIN}/blogs/news.rss?page=2`,
+      `${DOMAIN}/blogs/html`,
+    ]);
+    expect(result.failed).toEqual([`${DOMAIN}/blogs/guides.atom?page=3`, `${DOMAIN}/blogs/news.rss?page=2`, `${DOMAIN}/blogs/html`]);
+    expect(result.rejected.map((rejection) => [rejection.feed, rejection.errors[0]])).toEqual([
+      [`${DOMAIN}/blogs/guides.atom?page=3`, 'Feed returned HTTP 404'],
+      [`${DOMAIN}/blogs/news.rss`, 'link: Required'],
+      [`${DOMAIN}/blogs/news.rss?page=2`, 'Feed returned HTTP 404'],
+      [`${DOMAIN}/blogs/html`, 'Not an RSS or Atom feed'],
+    ]);
+  });
+
+  it('reads each page once when feeds share pages', async () => {
+    const result = await fetchFeeds([`${DOMAIN}/blogs/guides.atom?page=2`, `${DOMAIN}/blogs/guides.atom`]);
+    expect(result.items).toHaveLength(3);
+    expect(new Set(result.pages).size).toBe(result.pages.length);
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { PersonaManager } from '../src/personas';
+
+// Returns the given persona JSON as the model's reply
+const createManager = (reply: unknown) => new PersonaManager({ chatJSON: async () => reply } as any);
+
+describe('PersonaManager.createPersona', () => {
+  it('fills the fields the model left out with their defaults', async () => {
+    const manager = createManager({ name: 'Sam Reed', background: 'Perfumer', writing_voice: 'Warm', experience_years: 12 });
+    const persona = await manager.createPersona('fragrance', 'conversational');
+    expect(persona).toMatchObject({
+      name: 'Sam Reed',
+      expertise: [],
+      achievements: [],
+      experience_years: '12',
+      topic_area: 'fragrance',
+      style: 'conversational',
+    });
+    expect(manager.getPersona(persona.id)).toEqual(persona);
+  });
+
+  it('rejects a reply that is not a persona', async () => {
+    const manager = createManager({ name: 'Sam Reed', expertise: 'perfume' });
+    await expect(manager.createPersona('fragrance', 'conversational')).rejects.toThrow(/invalid persona.*background/);
+    expect(manager.getPersonas()).toEqual([]);
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ProductCatalog } from '../src/product-catalog';
+
+const product = (id: number) => ({ id, title: `Product ${id}`, handle: `product-${id}`, variants: [] });
+
+// The catalog only reads its SQL rows and the Vectorize matches, so both are served from memory
+function createCatalog(matchIds: number[], eligibleIds: number[]) {
+  const query = vi.fn(async () => ({ matches: matchIds.map((id) => ({ id: `product-${id}`, score: 0.9, metadata: { productId: id } })), count: matchIds.length }));
+  const agent = {
+    sql: async () => eligibleIds.map((id) => ({ id, data: JSON.stringify(product(id)) })),
+  };
+  const llm = { embed: async (texts: string[]) => texts.map(() => [0.1, 0.2, 0.3]) };
+  const catalog = new ProductCatalog(agent as any, llm as any, { query } as any);
+  return { catalog, query };
+}
+
+describe('ProductCatalog.findCandidates', () => {
+  it('stays within the topK Vectorize allows when returning metadata', async () => {
+    const { catalog, query } = createCatalog([], []);
+    await catalog.findCandidates('pheromone cologne', 10);
+    await catalog.findCandidates('pheromone cologne', 2);
+    expect(query).toHaveBeenNthCalledWith(1, [0.1, 0.2, 0.3], expect.objectContaining({ topK: 20, returnMetadata: 'all', filter: { contentType: 'catalog_product' } }));
+    expect(query).toHaveBeenNthCalledWith(2, [0.1, 0.2, 0.3], expect.objectContaining({ topK: 6 }));
+  });
+
+  it('returns eligible matches in similarity order', async () => {
+    const { catalog } = createCatalog([3, 1, 2, 4], [1, 2, 4]);
+    expect((await catalog.findCandidates('pheromone cologne', 2)).map((p) => p.id)).toEqual([1, 2]);
+  });
+
+  it('returns nothing when no match is eligible', async () => {
+    const { catalog } = createCatalog([3], [1, 2]);
+    expect(await catalog.findCandidates('pheromone cologne')).toEqual([]);
+  });
+});
@@ -0,0 +1,66 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { isSafeUrl, looksLikeMarkdown, sanitizeArticleHtml } from '../src/sanitizer';
+
+const fixturesDir = join(__dirname, 'fixtures', 'sanitizer');
+const fixtures = readdirSync(fixturesDir)
+  .filter((file) => file.endsWith('.input.html'))
+  .map((file) => file.replace('.input.html', ''));
+
+describe('sanitizeArticleHtml fixtures', () => {
+  it.each(fixtures)('%s', (name) => {
+    const input = readFileSync(join(fixturesDir, `${name}.input.html`), 'utf8');
+    const expected = readFileSync(join(fixturesDir, `${name}.expected.html`), 'utf8');
+    expect(sanitizeArticleHtml(input)).toBe(expected.trim());
+  });
+
+  it.each(fixtures)('%s is stable when sanitized twice', (name) => {
+    const once = sanitizeArticleHtml(readFileSync(join(fixturesDir, `${name}.input.html`), 'utf8'));
+    expect(sanitizeArticleHtml(once)).toBe(once);
+  });
+});
+
+describe('sanitizeArticleHtml', () => {
+  it('returns an empty string for non-string content', () => {
+    expect(sanitizeArticleHtml(undefined)).toBe('');
+    expect(sanitizeArticleHtml({ content: '<p>x</p>' })).toBe('');
+  });
+
+  it('removes event handlers from allowed tags', () => {
+    expect(sanitizeArticleHtml('<p onmouseover="steal()">Hi</p>')).toBe('<p>Hi</p>');
+  });
+
+  it('drops unknown tags but keeps their text', () => {
+    expect(sanitizeArticleHtml('<p><font color="red">Red</font> text</p>')).toBe('<p>Red text</p>');
+  });
+
+  it('escapes stray angle brackets in text', () => {
+    expect(sanitizeArticleHtml('<p>1 < 2 and 3 > 2</p>')).toBe('<p>1 &lt; 2 and 3 &gt; 2</p>');
+  });
+});
+
+describe('isSafeUrl', () => {
+  it.each(['https://example.com', '/collections/all', '#faq', 'mailto:hi@example.com', 'tel:+15551234'])('allows %s', (url) => {
+    expect(isSafeUrl(url)).toBe(true);
+  });
+
+  it.each(['javascript:alert(1)', 'JAVASCRIPT:alert(1)', 'java\tscript:alert(1)', 'java&#x73;cript:alert(1)', 'data:text/html,<b>', 'vbscript:msgbox'])(
+    'rejects %s',
+    (url) => {
+      expect(isSafeUrl(url)).toBe(false);
+    }
+  );
+});
+
+describe('looksLikeMarkdown', () => {
+  it('detects Markdown headings, lists and inline syntax', () => {
+    expect(looksLikeMarkdown('## Heading\n\nText')).toBe(true);
+    expect(looksLikeMarkdown('- item one\n- item two')).toBe(true);
+    expect(looksLikeMarkdown('<p>Some **bold** text</p>')).toBe(true);
+  });
+
+  it('ignores plain HTML', () => {
+    expect(looksLikeMarkdown('<h2>Heading</h2><p>Text with a <a href="/x">link</a>.</p>')).toBe(false);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { legacySiteConfig, mergeSiteConfig, siteConfigSchema } from '../src/site-config';
+
+const current = siteConfigSchema.parse({
+  ...legacySiteConfig('example.myshopify.com'),
+  logoUrl: 'https://shop.example.com/logo.png',
+  images: { style: 'luxury', brandNotes: 'Gold and black', bodyImages: 2 },
+  productCards: { template: 'comparison', maxProducts: 3 },
+});
+
+describe('mergeSiteConfig', () => {
+  it('keeps the other fields of a nested object that is partly updated', () => {
+    const config = siteConfigSchema.parse(mergeSiteConfig(current, { images: { bodyImages: 4 }, shopify: { apiVersion: '2025-01' } }));
+    expect(config.images).toEqual({ ...current.images, bodyImages: 4 });
+    expect(config.shopify).toEqual({ ...current.shopify, apiVersion: '2025-01' });
+    expect(config.productCards).toEqual(current.productCards);
+  });
+
+  it('replaces arrays and resets keys set to null', () => {
+    const config = siteConfigSchema.parse(mergeSiteConfig(current, { seedTopics: ['cologne'], logoUrl: null, images: { brandNotes: null } }));
+    expect(config.seedTopics).toEqual(['cologne']);
+    expect(config.fallbackLinks).toEqual(current.fallbackLinks);
+    expect(config.logoUrl).toBeUndefined();
+    expect(config.images.brandNotes).toBeUndefined();
+    expect(config.images.style).toBe('luxury');
+  });
+
+  it('takes the update as-is when nothing is configured yet', () => {
+    expect(mergeSiteConfig(undefined, { brandName: 'Shop' })).toEqual({ brandName: 'Shop' });
+    expect(siteConfigSchema.safeParse(mergeSiteConfig(undefined, { brandName: 'Shop' })).success).toBe(false);
+  });
+
+  it('leaves invalid values for the schema to reject', () => {
+    const result = siteConfigSchema.safeParse(mergeSiteConfig(current, { productCards: { maxProducts: 9 } }));
+    expect(result.success).toBe(false);
+    expect(result.error?.issues.map((issue) => issue.path.join('.'))).toEqual(['productCards.maxProducts']);
+  });
+});
@@ -0,0 +1,168 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { gzipSync } from 'node:zlib';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { classifyUrl, crawlSitemaps, fetchAllSiteUrls, localePrefix, parseSitemapXml } from '../src/sitemap';
+import { decodeXmlEntities } from '../src/xml';
+
+const fixturesDir = join(__dirname, 'fixtures', 'sitemap');
+const fixture = (name: string) => readFileSync(join(fixturesDir, name), 'utf8');
+
+const DOMAIN = 'https://shop.example.com';
+
+// Storefront URLs served by the mocked fetch, mirroring a real Shopify store
+const routes: Record<string, () => Uint8Array | string> = {
+  [`${DOMAIN}/sitemap.xml`]: () => fixture('sitemap.xml'),
+  [`${DOMAIN}/sitemap_products_1.xml?from=7190489432238&to=7419846197422`]: () => fixture('sitemap_products_1.xml'),
+  [`${DOMAIN}/sitemap_products_2.xml?from=7419846230190&to=8011297882286`]: () => fixture('sitemap_products_2.xml'),
+  [`${DOMAIN}/sitemap_pages_1.xml`]: () => fixture('sitemap_pages_1.xml'),
+  [`${DOMAIN}/sitemap_collections_1.xml?from=272732946526&to=276353908830`]: () => fixture('sitemap_collections_1.xml'),
+  [`${DOMAIN}/sitemap_blogs_1.xml`]: () => fixture('sitemap_blogs_1.xml'),
+  [`${DOMAIN}/sitemap_metaobject_pages_1.xml`]: () => fixture('sitemap_metaobject_pages_1.xml'),
+  [`${DOMAIN}/fr/sitemap.xml`]: () => fixture('fr-sitemap.xml'),
+  // Served gzipped without Content-Encoding, as static .gz files are
+  [`${DOMAIN}/fr/sitemap_products_1.xml.gz`]: () => gzipSync(fixture('fr-sitemap_products_1.xml')),
+};
+
+describe('parseSitemapXml', () => {
+  it('reads a sitemap index and decodes entities in its locations', () => {
+    const parsed = parseSitemapXml(fixture('sitemap.xml'));
+    expect(parsed.kind).toBe('index');
+    if (parsed.kind !== 'index') return;
+    expect(parsed.sitemaps).toHaveLength(7);
+    expect(parsed.sitemaps[0].loc).toBe(`${DOMAIN}/sitemap_products_1.xml?from=7190489432238&to=7419846197422`);
+  });
+
+  it('reads urls with lastmod and image sitemap extensions', () => {
+    const parsed = parseSitemapXml(fixture('sitemap_products_1.xml'));
+    expect(parsed.kind).toBe('urlset');
+    if (parsed.kind !== 'urlset') return;
+    expect(parsed.urls.map((u) => u.loc)).toEqual([`${DOMAIN}/`, `${DOMAIN}/products/alpha-cologne`, `${DOMAIN}/products/beta-perfume`]);
+    expect(parsed.urls[1].lastmod).toBe('2025-06-01T10:15:00-04:00');
+    expect(parsed.urls[1].images).toEqual([
+      {
+        loc: 'https://cdn.shopify.com/s/files/1/0001/products/alpha.jpg?v=1717251300',
+        title: 'Alpha Cologne <50ml>',
+        caption: 'Alpha & Omega™ bottle',
+      },
+      { loc: 'https://cdn.shopify.com/s/files/1/0001/products/alpha-box.jpg', title: undefined, caption: undefined },
+    ]);
+    expect(parsed.urls[2].images).toEqual([]);
+  });
+
+  it('handles minified sitemaps and whitespace around locations', () => {
+    const collections = parseSitemapXml(fixture('sitemap_collections_1.xml'));
+    expect(collections.kind === 'urlset' && collections.urls).toHaveLength(3);
+
+    const blogs = parseSitemapXml(fixture('sitemap_blogs_1.xml'));
+    expect(blogs.kind === 'urlset' && blogs.urls[2].loc).toBe(`${DOMAIN}/blogs/guides/choosing-a-scent`);
+  });
+
+  it('ignores comments between entries', () => {
+    const parsed = parseSitemapXml(fixture('sitemap_products_2.xml'));
+    expect(parsed.kind === 'urlset' && parsed.urls.map((u) => u.loc)).toEqual([`${DOMAIN}/products/gamma-oil`, `${DOMAIN}/`]);
+  });
+
+  it('returns unknown for documents that are not sitemaps', () => {
+    expect(parseSitemapXml('<!DOCTYPE html><html><body>Not found</body></html>').kind).toBe('unknown');
+    expect(parseSitemapXml('').kind).toBe('unknown');
+  });
+});
+
+describe('decodeXmlEntities', () => {
+  it('decodes predefined and numeric entities and keeps unknown ones', () => {
+    expect(decodeXmlEntities('a &amp; b &lt;c&gt; &quot;d&quot; &apos;e&apos;')).toBe('a & b <c> "d" \'e\'');
+    expect(decodeXmlEntities('&#233;t&#xE9; &#X1F600;')).toBe('été 😀');
+    expect(decodeXmlEntities('&nbsp; &bogus;')).toBe('&nbsp; &bogus;');
+  });
+});
+
+describe('classifyUrl', () => {
+  it.each([
+    [`${DOMAIN}/blogs/news/how-pheromones-work`, 'blog'],
+    [`${DOMAIN}/fr/blogs/news/comment`, 'blog'],
+    [`${DOMAIN}/blogs/news`, 'other'],
+    [`${DOMAIN}/products/alpha-cologne`, 'product'],
+    [`${DOMAIN}/en-ca/products/alpha-cologne/`, 'product'],
+    [`${DOMAIN}/collections/mens-colognes`, 'collection'],
+    [`${DOMAIN}/collections/all`, 'other'],
+    [`${DOMAIN}/collections/mens-colognes/products/alpha-cologne`, 'other'],
+    [`${DOMAIN}/pages/about-us`, 'page'],
+    [`${DOMAIN}/pages/ingredients/androstenone`, 'metaobject'],
+    [`${DOMAIN}/`, 'other'],
+    ['not a url', 'other'],
+  ])('%s is %s', (url, type) => {
+    expect(classifyUrl(url)).toBe(type);
+  });
+});
+
+describe('crawling', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string) => {
+        const route = routes[url];
+        return route ? new Response(route()) : new Response('Not found', { status: 404 });
+      })
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('follows nested indexes, reads gzipped shards and reads each sitemap once', async () => {
+    const { urls, sitemaps } = await crawlSitemaps([`${DOMAIN}/sitemap.xml`]);
+    expect(sitemaps).toHaveLength(9);
+    expect(new Set(sitemaps).size).toBe(sitemaps.length);
+    expect(urls.map((u) => u.loc)).toContain(`${DOMAIN}/fr/products/alpha-cologne`);
+    // The homepage appears in two shards but is returned once
+    expect(urls.filter((u) => u.loc === `${DOMAIN}/`)).toHaveLength(1);
+  });
+
+  it('skips sitemaps that fail to load', async () => {
+    const { urls, sitemaps, failed } = await crawlSitemaps([`${DOMAIN}/missing.xml`, `${DOMAIN}/sitemap_pages_1.xml`]);
+    expect(sitemaps).toEqual([`${DOMAIN}/missing.xml`, `${DOMAIN}/sitemap_pages_1.xml`]);
+    expect(failed).toEqual([`${DOMAIN}/missing.xml`]);
+    expect(urls).toHaveLength(2);
+  });
+
+  it('discovers every page from /sitemap.xml and sorts them by type', async () => {
+    const site = await fetchAllSiteUrls(DOMAIN, { additional: [] });
+    const locs = (urls: Array<{ loc: string }>) => urls.map((u) => u.loc).sort();
+
+    expect(locs(site.products)).toEqual([
+      `${DOMAIN}/products/alpha-cologne`,
+      `${DOMAIN}/products/beta-perfume`,
+      `${DOMAIN}/products/gamma-oil`,
+    ]);
+    expect(locs(site.collections)).toEqual([`${DOMAIN}/collections/mens-colognes`, `${DOMAIN}/collections/womens-perfumes`]);
+    expect(locs(site.blogPosts)).toEqual([
+      `${DOMAIN}/blogs/guides/choosing-a-scent`,
+      `${DOMAIN}/blogs/news/how-pheromones-work`,
+    ]);
+    expect(locs(site.pages)).toEqual([`${DOMAIN}/pages/about-us`, `${DOMAIN}/pages/faq`]);
+    expect(locs(site.metaobjects)).toEqual([`${DOMAIN}/pages/ingredients/androstenone`]);
+    expect(locs(site.other)).toEqual([`${DOMAIN}/`, `${DOMAIN}/blogs/news`, `${DOMAIN}/collections/all`]);
+  });
+
+  it('skips the sitemaps and pages of other locales', async () => {
+    const site = await fetchAllSiteUrls(DOMAIN, { additional: [] });
+    expect(site.sitemaps.filter((loc) => loc.includes('/fr/'))).toEqual([]);
+    expect(site.sitemaps).toHaveLength(7);
+    expect(localePrefix(`${DOMAIN}/fr-CA/products/x`)).toBe('fr-ca');
+    expect(localePrefix(`${DOMAIN}/fr`)).toBe('fr');
+    expect(localePrefix(`${DOMAIN}/products/x`)).toBeUndefined();
+  });
+
+  it('starts from a configured root and reads additional sitemaps', async () => {
+    const site = await fetchAllSiteUrls(DOMAIN, { root: `${DOMAIN}/sitemap_blogs_1.xml`, additional: [`${DOMAIN}/sitemap_pages_1.xml`] });
+    expect(site.sitemaps).toEqual([`${DOMAIN}/sitemap_blogs_1.xml`, `${DOMAIN}/sitemap_pages_1.xml`]);
+    expect(site.blogPosts).toHaveLength(2);
+    expect(site.pages).toHaveLength(2);
+    expect(site.products).toEqual([]);
+  });
+});